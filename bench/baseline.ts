@@ -0,0 +1,81 @@
+/**
+ * The array-backed index specifiers that {@link KeySet} replaced, kept as a
+ * baseline for the benchmarks. Only the parts the benchmarks compare are kept:
+ * merging keys, checking for a key and shifting keys through list operations.
+ */
+
+import { Key, ListOperation, shiftIndex } from "../src/indexSpecifier";
+
+/**
+ * A collection of keys stored as an array, in order of first appearance
+ */
+export interface BaselineIndices {
+  indexType: "Indices";
+  indices: Key[];
+}
+
+/**
+ * Creates a baseline collection of keys
+ * @param keys The keys
+ * @returns The collection
+ */
+export function baselineIndices(keys: Key[]): BaselineIndices {
+  return { indexType: "Indices", indices: keys };
+}
+
+/**
+ * Merges two collections of keys as a new non-duplicated list, as
+ * `mergeIndexSpecifiers` did for two `Indices` collections
+ * @param baseSpecifier The base collection
+ * @param newSpecifier A new collection to merge in
+ * @returns The merged collection
+ */
+export function baselineMerge(
+  baseSpecifier: BaselineIndices,
+  newSpecifier: BaselineIndices
+): BaselineIndices {
+  const merged: { [key: Key]: boolean } = {};
+  const results: Key[] = [];
+  for (const indices of [baseSpecifier.indices, newSpecifier.indices]) {
+    for (const index of indices) {
+      if (!merged[index]) {
+        results.push(index);
+        merged[index] = true;
+      }
+    }
+  }
+  return baselineIndices(results);
+}
+
+/**
+ * Returns whether a collection has a key, as `indexHas` did
+ * @param specifier The collection
+ * @param index The key
+ * @returns Whether the collection has the key
+ */
+export function baselineHas(specifier: BaselineIndices, index: Key): boolean {
+  return specifier.indices.includes(index);
+}
+
+/**
+ * Shifts every key through structural list operations one at a time, as
+ * merging structural changes did
+ * @param specifier The collection
+ * @param operations The structural list operations, in order
+ * @returns The collection with the shifted keys
+ */
+export function baselineShift(
+  specifier: BaselineIndices,
+  operations: ListOperation[]
+): BaselineIndices {
+  const results: Key[] = [];
+  for (const index of specifier.indices) {
+    let shifted: Key | null = index;
+    for (const operation of operations) {
+      shifted = shiftIndex(shifted, operation);
+      if (shifted == null) break;
+    }
+    if (shifted != null) results.push(shifted);
+  }
+  return baselineIndices(results);
+}
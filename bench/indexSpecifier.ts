@@ -0,0 +1,186 @@
+/**
+ * Benchmarks for index specifiers on large lists. Run with `npm run bench`.
+ * Benchmarks of index specifiers on their own are also timed against the
+ * array-backed specifiers they replaced (see `baseline.ts`).
+ */
+
+import { batch } from "../src/channel";
+import { List } from "../src/channelFn";
+import {
+  indexHas,
+  indexNone,
+  IndexSpecifier,
+  indices,
+  keyedChanges,
+  KeySet,
+  ListOperation,
+  mergeIndexSpecifiers,
+  mergeIndexSpecifiersInto,
+} from "../src/indexSpecifier";
+import { range } from "../src/util";
+import {
+  baselineHas,
+  baselineIndices,
+  baselineMerge,
+  baselineShift,
+} from "./baseline";
+
+const size = 100000;
+
+// A small deterministic pseudorandom number generator
+let seed = 1;
+function random(n: number): number {
+  seed = (seed * 16807) % 2147483647;
+  return seed % n;
+}
+
+// A list of numbers with an incrementally mapped channel downstream
+function mappedList() {
+  const list = new List(range(0, size));
+  const mapped = list.map((x) => x * 2);
+  mapped.data;
+  return { list, mapped };
+}
+
+/**
+ * Times a function
+ * @param fn The function to time
+ * @returns How long it took, formatted in milliseconds
+ */
+function time(fn: () => void): string {
+  const start = performance.now();
+  fn();
+  return `${(performance.now() - start).toFixed(1)} ms`;
+}
+
+/**
+ * Runs a benchmark, printing how long it took (and how long the baseline took,
+ * if there is one)
+ * @param name The name of the benchmark
+ * @param fn The function to time
+ * @param baseline The same work done with the baseline specifiers
+ */
+function benchmark(name: string, fn: () => void, baseline?: () => void) {
+  const result = time(fn).padStart(13);
+  const baselineResult = baseline == null ? "" : time(baseline).padStart(13);
+  console.log(`${name.padEnd(50)}${result}${baselineResult}`);
+}
+
+console.log(`${"".padEnd(50)}${"time".padStart(13)}${"baseline".padStart(13)}`);
+
+// Merges 2,000 single indices with the baseline
+function baselineMerges() {
+  let merged = baselineIndices([]);
+  for (let i = 0; i < 2000; i++) {
+    merged = baselineMerge(merged, baselineIndices([random(size)]));
+  }
+}
+
+benchmark(
+  "merge 2,000 single indices",
+  () => {
+    let merged: IndexSpecifier = indexNone;
+    for (let i = 0; i < 2000; i++) {
+      merged = mergeIndexSpecifiers(merged, indices([random(size)]));
+    }
+  },
+  baselineMerges
+);
+
+benchmark(
+  "merge 2,000 single indices in place",
+  () => {
+    let merged: IndexSpecifier = indexNone;
+    for (let i = 0; i < 2000; i++) {
+      merged = mergeIndexSpecifiersInto(merged, indices([random(size)]));
+    }
+  },
+  // The baseline always merged into a new list
+  baselineMerges
+);
+
+benchmark(
+  "index has on 100,000 indices (10,000 lookups)",
+  () => {
+    const specifier = indices(range(0, size));
+    for (let i = 0; i < 10000; i++) {
+      indexHas(specifier, random(size * 2));
+    }
+  },
+  () => {
+    const specifier = baselineIndices(range(0, size));
+    for (let i = 0; i < 10000; i++) {
+      baselineHas(specifier, random(size * 2));
+    }
+  }
+);
+
+// Inserting items one at a time, as the baseline described them
+const inserts: ListOperation[] = range(0, 100).map(() => ({
+  operation: "Insert",
+  index: random(size),
+}));
+
+benchmark(
+  "shift 100,000 indices through 100 inserts",
+  () => {
+    KeySet.range(0, size).shift(inserts);
+  },
+  () => {
+    baselineShift(baselineIndices(range(0, size)), inserts);
+  }
+);
+
+benchmark("set 2,000 items in a batch, then read", () => {
+  const { list, mapped } = mappedList();
+  batch(() => {
+    for (let i = 0; i < 2000; i++) {
+      list.setItem(random(size), i);
+    }
+  });
+  mapped.data;
+});
+
+benchmark("set 2,000 items with an eager subscriber", () => {
+  const { list, mapped } = mappedList();
+  mapped.subscribe(() => {});
+  for (let i = 0; i < 2000; i++) {
+    list.setItem(random(size), i);
+  }
+});
+
+benchmark("insert 10,000 items at once, then read", () => {
+  const { list, mapped } = mappedList();
+  list.splice(0, 0, ...range(0, 10000));
+  mapped.data;
+});
+
+benchmark("insert 10,000 items at once, then set 1,000", () => {
+  const { list, mapped } = mappedList();
+  batch(() => {
+    list.splice(size / 2, 0, ...range(0, 10000));
+    for (let i = 0; i < 1000; i++) {
+      list.setItem(random(size), i);
+    }
+  });
+  mapped.data;
+});
+
+benchmark("insert 500 items one by one, then read", () => {
+  const { list, mapped } = mappedList();
+  batch(() => {
+    for (let i = 0; i < 500; i++) {
+      list.insert(random(list.data.length), i);
+    }
+  });
+  mapped.data;
+});
+
+benchmark("keyed changes reversing 10,000 keys", () => {
+  const keys = range(0, 10000);
+  keyedChanges(keys, [...keys].reverse());
+});
+
+benchmark("keyed changes replacing 10,000 keys", () => {
+  keyedChanges(range(0, 10000), range(10000, 20000));
+});
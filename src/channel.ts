@@ -19,7 +19,8 @@ import {
   indexNone,
   IndexSpecifier,
   Key,
-  mergeIndexSpecifiers,
+  ListOperation,
+  mergeIndexSpecifiersInto,
 } from "./indexSpecifier";
 
 /**
@@ -40,6 +41,94 @@ type ChannelWithConnector<T> = {
   connector: ChannelConnector;
 };
 
+/**
+ * A subscriber is a callback that is run with a channel's new data whenever the
+ * channel changes, along with an {@link IndexSpecifier} describing what changed
+ */
+export type Subscriber<DataType> = (
+  data: DataType,
+  changed: IndexSpecifier
+) => void;
+
+/**
+ * An event in the channel graph, reported to channel observers (see
+ * {@link observeChannels})
+ *
+ *  - mutation: a change started propagating from a channel, such as when a
+ *    data channel's data was set. Every channel marked dirty until the next
+ *    mutation was marked by this change.
+ *  - markDirty: a channel was marked dirty by a change to an incoming channel
+ *  - update: an automatic channel recalculated its data, either in full with
+ *    its update function or index by index with its update index function
+ *    (and update operation function). The duration is how long that took, in
+ *    milliseconds.
+ */
+export type ChannelEvent =
+  | {
+      type: "mutation";
+      channel: Channel<any>;
+      indexSpecifier: IndexSpecifier;
+    }
+  | {
+      type: "markDirty";
+      channel: Channel<any>;
+      source: Channel<any>;
+      indexSpecifier: IndexSpecifier;
+    }
+  | {
+      type: "update";
+      channel: Channel<any>;
+      method: "updateFunction" | "updateIndexFunction";
+      dirty: IndexSpecifier;
+      duration: number;
+    };
+
+/**
+ * A callback that is run with every {@link ChannelEvent}
+ */
+export type ChannelObserver = (event: ChannelEvent) => void;
+
+/**
+ * The callbacks observing the channel graph
+ */
+const observers = new Set<ChannelObserver>();
+
+/**
+ * Observes every change to and recalculation in the channel graph, such as to
+ * debug why a channel updated. Events are reported synchronously as they
+ * happen. Nothing is reported (or costs anything) while there are no
+ * observers.
+ * @param observer The callback to run with each event
+ * @returns A function that stops observing when called
+ */
+export function observeChannels(observer: ChannelObserver): () => void {
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+/**
+ * Reports an event to all the channel observers
+ * @param event A function creating the event, which is only called if there
+ * are observers
+ */
+function report(event: () => ChannelEvent) {
+  if (observers.size === 0) return;
+  const reported = event();
+  for (const observer of [...observers]) {
+    observer(reported);
+  }
+}
+
+/**
+ * Returns the current time for measuring durations reported to the channel
+ * observers, or 0 if there are none (so nothing is measured)
+ */
+function now(): number {
+  return observers.size === 0 ? 0 : performance.now();
+}
+
 /**
  * A channel is a generic data structure for storing and flowing data. It is a
  * way to efficiently communicate when data changes and provide ways to respond
@@ -60,6 +149,24 @@ export abstract class Channel<DataType> {
    */
   public connectedChannels: ChannelWithConnector<any>[] = [];
 
+  /**
+   * All the callbacks that are run whenever this channel changes
+   */
+  public subscribers: Subscriber<any>[] = [];
+
+  /**
+   * The channel's position in a topological ordering of the channel graph: the
+   * length of the longest path to it from a channel with no incoming channels.
+   * Eager updates run in order of rank so upstream channels update first.
+   */
+  public rank: number = 0;
+
+  /**
+   * An optional name for the channel, shown in error messages and debugging
+   * output
+   */
+  public name?: string;
+
   /**
    * The last output of data that this channel precalculated. If the data is
    * requested and no changes occurred since the last time the data was
@@ -78,21 +185,257 @@ export abstract class Channel<DataType> {
    */
   abstract get data(): DataType;
 
+  /**
+   * What has changed since the channel's data was last calculated, for
+   * debugging. The index specifier must not be modified.
+   */
+  get dirtyIndex(): IndexSpecifier {
+    return this.dirty;
+  }
+
+  /**
+   * Names the channel (see {@link name})
+   * @param name The name
+   * @returns The channel
+   */
+  named(name: string): this {
+    this.name = name;
+    return this;
+  }
+
   /**
    * Marks the channel as dirty, and triggers changes to all connected channels
    * downstream recursively.
    */
   markDirty(indexSpecifier: IndexSpecifier = indexAll) {
-    this.dirty = mergeIndexSpecifiers(this.dirty, indexSpecifier);
+    this.dirty = mergeIndexSpecifiersInto(this.dirty, indexSpecifier);
+    this.propagate(indexSpecifier);
+  }
+
+  /**
+   * Connects a downstream channel to this channel so that it is marked dirty
+   * whenever this channel changes
+   * @param channel The downstream channel
+   * @param connector The {@link ChannelConnector} describing how this
+   * channel's indices map to the downstream channel's indices
+   * @throws {ChannelCycleError} If this channel is already downstream of the
+   * channel, since connecting them would form a cycle
+   */
+  connect(channel: Channel<any>, connector: ChannelConnector) {
+    // Ensure this channel cannot be reached from the downstream channel
+    const path = channel.pathTo(this);
+    if (path != null) {
+      throw new ChannelCycleError([...path, channel]);
+    }
+
+    this.connectedChannels.push({ channel, connector });
+
+    // The downstream channel must come after this one topologically
+    channel.raiseRank(this.rank + 1);
+  }
+
+  /**
+   * Finds a path of connected channels from this channel downstream to the
+   * specified channel
+   * @param target The downstream channel to find
+   * @param visited The channels already searched
+   * @returns The channels along the path, starting with this channel and ending
+   * with the target, or null if the target is not downstream
+   */
+  protected pathTo(
+    target: Channel<any>,
+    visited = new Set<Channel<any>>()
+  ): Channel<any>[] | null {
+    if (this === target) return [this];
+    // Each channel only needs searching once, however many paths lead to it
+    visited.add(this);
+    for (const { channel } of this.connectedChannels) {
+      if (visited.has(channel)) continue;
+      const path = channel.pathTo(target, visited);
+      if (path != null) return [this, ...path];
+    }
+    return null;
+  }
+
+  /**
+   * Raises the rank of this channel to at least the specified rank, along with
+   * the ranks of all channels downstream
+   * @param rank The minimum rank
+   */
+  protected raiseRank(rank: number) {
+    if (this.rank >= rank) return;
+    this.rank = rank;
+    for (const { channel } of this.connectedChannels) {
+      channel.raiseRank(rank + 1);
+    }
+  }
+
+  /**
+   * Subscribes a callback to run with the channel's new data whenever the
+   * channel changes. Subscribed channels retrieve their data eagerly.
+   * @param subscriber The callback to run upon changes
+   * @returns A function that unsubscribes the callback when called
+   */
+  subscribe(subscriber: Subscriber<DataType>): () => void {
+    this.subscribers.push(subscriber);
+    return () => {
+      const index = this.subscribers.indexOf(subscriber);
+      if (index !== -1) {
+        this.subscribers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Disposes the channel, detaching it from the channel graph so it no longer
+   * receives updates and can be garbage collected. Subclasses also tear down
+   * any channels they own. The data of a disposed channel is no longer kept
+   * current.
+   */
+  dispose() {
+    this.subscribers = [];
+  }
+
+  /**
+   * Notifies all connected channels downstream of a change to this channel
+   * and runs any eager updates and subscribers. Eager updates are deferred
+   * until every downstream channel is marked dirty, so they never see a
+   * partially updated graph.
+   * @param indexSpecifier The indices of this channel that changed
+   */
+  protected propagate(indexSpecifier: IndexSpecifier) {
+    // Ensure the change has not looped back around to this channel, which can
+    // happen if connected channels are modified by hand
+    if (propagatingChannels.has(this)) {
+      const channels = [...propagatingChannels];
+      throw new ChannelCycleError([
+        ...channels.slice(channels.indexOf(this)),
+        this,
+      ]);
+    }
+
+    if (propagatingChannels.size === 0) {
+      report(() => ({ type: "mutation", channel: this, indexSpecifier }));
+    }
+
+    // Mark the connected channels as a batch, but only check for cycles while
+    // marking: eager updates and subscribers run once this channel is done
+    // propagating, so they may change it (or channels upstream of it) again
+    batchDepth++;
+    propagatingChannels.add(this);
+    try {
+      this.markConnectedDirty(indexSpecifier);
+    } finally {
+      propagatingChannels.delete(this);
+      batchDepth--;
+      if (batchDepth === 0) {
+        Channel.flush();
+      }
+    }
+  }
+
+  /**
+   * Marks all connected channels downstream as dirty and schedules any eager
+   * updates and subscribers
+   * @param indexSpecifier The indices of this channel that changed
+   */
+  private markConnectedDirty(indexSpecifier: IndexSpecifier) {
     for (const { channel, connector } of this.connectedChannels) {
       // Recursively mark all downstream channels as dirty (uses the channel's
       // connector to mark the appropriate indices as dirty)
-      channel.markDirty(connector(indexSpecifier));
+      const connected = connector(indexSpecifier);
+      report(() => ({
+        type: "markDirty",
+        channel,
+        source: this,
+        indexSpecifier: connected,
+      }));
+      channel.markDirty(connected);
     }
 
-    if (this.eager) {
-      // Retrieve the data eagerly if updates or callbacks are necessary
-      this.data;
+    if (this.eager || this.subscribers.length > 0) {
+      // Defer eager updates until the batch finishes, merging in what changed
+      pendingChannels.set(
+        this,
+        mergeIndexSpecifiersInto(
+          pendingChannels.get(this) ?? indexNone,
+          indexSpecifier
+        )
+      );
+    }
+  }
+
+  /**
+   * Retrieves the data eagerly and runs all the subscribers with it
+   * @param indexSpecifier The indices of this channel that changed
+   */
+  protected notify(indexSpecifier: IndexSpecifier) {
+    const data = this.data;
+    // Iterate over a copy in case subscribers unsubscribe while running
+    for (const subscriber of [...this.subscribers]) {
+      subscriber(data, indexSpecifier);
+    }
+  }
+
+  /**
+   * Runs the deferred eager updates of all channels that changed during a
+   * batch, in topological order
+   */
+  static flush() {
+    while (pendingChannels.size > 0) {
+      const pending = [...pendingChannels].sort(
+        ([channel1], [channel2]) => channel1.rank - channel2.rank
+      );
+      pendingChannels.clear();
+
+      // Any changes made by subscribers are batched into the next round
+      batchDepth++;
+      try {
+        for (const [channel, indexSpecifier] of pending) {
+          channel.notify(indexSpecifier);
+        }
+      } finally {
+        batchDepth--;
+      }
+    }
+  }
+}
+
+/**
+ * The channels currently propagating a change, in order from upstream to
+ * downstream. Used to detect cycles.
+ */
+const propagatingChannels = new Set<Channel<any>>();
+
+/**
+ * How many batches are currently running. Eager updates are deferred while
+ * this is greater than zero
+ */
+let batchDepth = 0;
+
+/**
+ * Channels with eager updates deferred by a batch, along with the merged
+ * {@link IndexSpecifier} of everything that changed in them
+ */
+const pendingChannels = new Map<Channel<any>, IndexSpecifier>();
+
+/**
+ * Runs a function that makes multiple changes to channels as a single batch.
+ * Downstream channels are still marked dirty as each change happens, but eager
+ * channels and subscribers only update once after the batch finishes, with all
+ * the changes merged together. Batches can be nested; updates run when the
+ * outermost batch finishes.
+ * @param fn A function that changes channel data
+ * @returns The return value of the function
+ */
+export function batch<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      Channel.flush();
     }
   }
 }
@@ -149,12 +492,8 @@ export class DataChannel<DataType> extends Channel<DataType> {
     // Update the underlying data
     this._data = data;
 
-    // Notify any downstream channels that are connected
-    for (const { channel, connector } of this.connectedChannels) {
-      // Mark the channel as dirty using the connector to mark the appropriate
-      // indices as dirty
-      channel.markDirty(connector(indexAll));
-    }
+    // Notify any downstream channels and subscribers that everything changed
+    this.propagate(indexAll);
   }
 }
 
@@ -163,6 +502,24 @@ export class DataChannel<DataType> extends Channel<DataType> {
  */
 export class NoIncomingChannelsError extends Error {}
 
+/**
+ * An error that is thrown if channels are connected in a cycle, which would
+ * cause changes to propagate forever
+ */
+export class ChannelCycleError extends Error {
+  /**
+   * @param channels The channels that form the cycle, in order, starting and
+   * ending with the same channel
+   */
+  constructor(readonly channels: Channel<any>[]) {
+    super(
+      `Channels are connected in a cycle: ${channels
+        .map((channel) => channel.name ?? channel.constructor.name)
+        .join(" -> ")}`
+    );
+  }
+}
+
 /**
  * An automatic channel is connected to one or more parent channels and has
  * calculated data that is dependent on these incoming channels' data. The
@@ -189,6 +546,12 @@ export class AutomaticChannel<
    * value, and the index to modify. The function does not return anything; it
    * just modifies the cached data in place (it's the caller's responsibility to
    * perform this modification)
+   * @param updateOperationFunction An optional function to apply a structural
+   * list operation (insert, delete or move) to the cached data in place. It is
+   * called for each operation of a "Changes" index specifier before the
+   * changed indices are updated with the update index function. Channels
+   * without this function recalculate all their data when structural changes
+   * occur.
    */
   constructor(
     readonly incomingChannels: IncomingChannelType,
@@ -201,6 +564,11 @@ export class AutomaticChannel<
       cachedData: DataType,
       index: Key
     ) => void,
+    readonly updateOperationFunction?: (
+      incomingData: ChannelListDataType<IncomingChannelType>,
+      cachedData: DataType,
+      operation: ListOperation
+    ) => void,
     public eager = false
   ) {
     // Ensure there are incoming channels
@@ -226,13 +594,72 @@ export class AutomaticChannel<
       const connector = this.incomingConnectors[i];
 
       // Hook the ChannelWithConnector into each incoming channel
-      incomingChannel.connectedChannels.push({
-        channel: this,
-        connector,
-      });
+      incomingChannel.connect(this, connector);
     }
   }
 
+  /**
+   * Disposes the channel and disconnects it from all its incoming channels
+   */
+  dispose() {
+    for (const incomingChannel of this.incomingChannels) {
+      // Remove this channel from each incoming channel's connected channels
+      incomingChannel.connectedChannels =
+        incomingChannel.connectedChannels.filter(
+          ({ channel }) => channel !== this
+        );
+    }
+    super.dispose();
+  }
+
+  /**
+   * Disposes the automatic channels upstream of this channel that are no
+   * longer used: those left with no connected channels or subscribers (such as
+   * a mapped list created just to feed this channel), and recursively the ones
+   * upstream of them. Eager channels are kept, since they may be kept current
+   * for their own sake.
+   */
+  protected disposeUnusedIncomingChannels() {
+    for (const incomingChannel of this.incomingChannels) {
+      if (
+        incomingChannel instanceof AutomaticChannel &&
+        !incomingChannel.eager &&
+        incomingChannel.connectedChannels.length === 0 &&
+        incomingChannel.subscribers.length === 0
+      ) {
+        incomingChannel.dispose();
+        incomingChannel.disposeUnusedIncomingChannels();
+      }
+    }
+  }
+
+  /**
+   * Runs a recalculation of the channel's data, reporting it (and how long it
+   * took) to the channel observers. Subclasses that recalculate their data in
+   * their own way run it through this too, so it shows up when debugging and
+   * profiling.
+   * @param method Which update function the recalculation corresponds to
+   * @param dirty What was dirty before the recalculation
+   * @param update The recalculation
+   * @returns What the recalculation returned
+   */
+  protected measureUpdate<T>(
+    method: "updateFunction" | "updateIndexFunction",
+    dirty: IndexSpecifier,
+    update: () => T
+  ): T {
+    const start = now();
+    const result = update();
+    report(() => ({
+      type: "update",
+      channel: this,
+      method,
+      dirty,
+      duration: now() - start,
+    }));
+    return result;
+  }
+
   /**
    * Calculates the data by reading each incoming channels' data and running
    * the update function. Only channels that are dirty need to be recalculated.
@@ -248,23 +675,40 @@ export class AutomaticChannel<
     const incomingData = this.incomingChannels.map((incomingChannel) => {
       return incomingChannel.data;
     }) as ChannelListDataType<IncomingChannelType>;
+    const dirty = this.dirty;
 
     // Run the update function to calculate the new data
     if (
-      this.dirty.indexType === "Indices" &&
+      (dirty.indexType === "Indices" ||
+        (dirty.indexType === "Changes" &&
+          this.updateOperationFunction != null)) &&
       this.updateIndexFunction != null
     ) {
-      // If only specified indices are dirty, update each index that needs to be
-      // recalculated individually (the cache is updated in-place by the update
-      // index function)
-      for (const index of this.dirty.indices) {
-        this.updateIndexFunction(incomingData, this.cachedData, index);
-      }
+      const updateIndex = this.updateIndexFunction;
+      this.measureUpdate("updateIndexFunction", dirty, () => {
+        if (dirty.indexType === "Changes") {
+          // Apply each structural operation to the cache in-place first
+          for (const operation of dirty.operations) {
+            this.updateOperationFunction!(
+              incomingData,
+              this.cachedData,
+              operation
+            );
+          }
+        }
+
+        // If only specified indices are dirty, update each index that needs to
+        // be recalculated individually (the cache is updated in-place by the
+        // update index function)
+        for (const index of dirty.indices) {
+          updateIndex(incomingData, this.cachedData, index);
+        }
+      });
     } else {
-      // Otherwise, calculate all the new data
-      const newData = this.updateFunction(...incomingData);
-      // Store the new data in the cache
-      this.cachedData = newData;
+      // Otherwise, calculate all the new data and store it in the cache
+      this.cachedData = this.measureUpdate("updateFunction", dirty, () =>
+        this.updateFunction(...incomingData)
+      );
     }
 
     // Data is no longer dirty since the cache is current
@@ -274,3 +718,162 @@ export class AutomaticChannel<
     return this.cachedData;
   }
 }
+
+/**
+ * The status of an {@link AsyncChannel}'s latest calculation
+ */
+export type AsyncStatus = "pending" | "resolved" | "rejected";
+
+/**
+ * The data of an {@link AsyncChannel}: the status of its latest calculation,
+ * along with the latest value and error. While a calculation is pending, the
+ * previous value is kept so it can still be shown.
+ */
+export interface AsyncState<T> {
+  status: AsyncStatus;
+  value: T | undefined;
+  error: unknown;
+}
+
+/**
+ * An async channel is an automatic channel whose update function returns a
+ * promise. Its data is an {@link AsyncState} that is pending until the promise
+ * settles, at which point the channel changes again with the resolved value or
+ * the rejection's error.
+ *
+ * As with any automatic channel, the calculation runs lazily: only once the
+ * data is read (or eagerly, if the channel is eager or has subscribers). When
+ * an incoming channel changes, the calculation in flight is aborted through the
+ * abort signal passed to the update function, and its result is ignored even
+ * if it still settles.
+ */
+export class AsyncChannel<
+  DataType,
+  IncomingChannelType extends Channel<any>[] | [Channel<any>]
+> extends AutomaticChannel<AsyncState<DataType>, IncomingChannelType> {
+  // Controls the calculation in flight, or null if none is
+  protected controller: AbortController | null = null;
+
+  /**
+   * @param incomingChannels An array of incoming channels
+   * @param asyncFunction A function that takes as input data corresponding to
+   * each incoming channel's data, followed by an abort signal that is aborted
+   * once the result is no longer needed, and returns a promise of this
+   * channel's value
+   * @param initialValue The value before the first calculation resolves
+   * @param eager Whether to calculate eagerly whenever an incoming channel
+   * changes
+   */
+  constructor(
+    incomingChannels: IncomingChannelType,
+    readonly asyncFunction: (
+      ...args: [...ChannelListDataType<IncomingChannelType>, AbortSignal]
+    ) => Promise<DataType>,
+    readonly initialValue?: DataType,
+    eager = false
+  ) {
+    super(
+      incomingChannels,
+      (...incomingData) => this.start(incomingData),
+      [],
+      undefined,
+      undefined,
+      eager
+    );
+  }
+
+  /**
+   * The status of the latest calculation
+   */
+  get status(): AsyncStatus {
+    return this.data.status;
+  }
+
+  /**
+   * The value of the latest calculation that resolved (or the initial value if
+   * none has)
+   */
+  get value(): DataType | undefined {
+    return this.data.value;
+  }
+
+  /**
+   * The error of the latest calculation if it was rejected, or undefined
+   */
+  get error(): unknown {
+    return this.data.error;
+  }
+
+  /**
+   * Marks the channel as dirty, aborting the calculation in flight since its
+   * result is now stale
+   */
+  markDirty(indexSpecifier: IndexSpecifier = indexAll) {
+    this.abort();
+    super.markDirty(indexSpecifier);
+  }
+
+  /**
+   * Disposes the channel, aborting the calculation in flight
+   */
+  dispose() {
+    this.abort();
+    super.dispose();
+  }
+
+  // Abort the calculation in flight, if any
+  protected abort() {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  // Start a calculation, returning the pending state
+  protected start(
+    incomingData: ChannelListDataType<IncomingChannelType>
+  ): AsyncState<DataType> {
+    this.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    // Run the function in a promise so errors it throws right away reject
+    new Promise<DataType>((resolve) =>
+      resolve(this.asyncFunction(...incomingData, controller.signal))
+    ).then(
+      (value) => this.settle(controller, { status: "resolved", value }),
+      (error) => this.settle(controller, { status: "rejected", error })
+    );
+
+    return {
+      status: "pending",
+      value: this.previousValue,
+      error: undefined,
+    };
+  }
+
+  // The value of the latest calculation that resolved
+  protected get previousValue(): DataType | undefined {
+    return this.cachedData == null ? this.initialValue : this.cachedData.value;
+  }
+
+  // Store the result of a calculation and notify downstream channels, unless
+  // the calculation is stale
+  protected settle(
+    controller: AbortController,
+    result:
+      | { status: "resolved"; value: DataType }
+      | { status: "rejected"; error: unknown }
+  ) {
+    if (controller !== this.controller) return;
+    this.controller = null;
+
+    this.cachedData =
+      result.status === "resolved"
+        ? { status: "resolved", value: result.value, error: undefined }
+        : {
+            status: "rejected",
+            value: this.previousValue,
+            error: result.error,
+          };
+    this.propagate(indexAll);
+  }
+}
@@ -1,4 +1,47 @@
-import { Dictionary, List, Number, String, unravelData } from "./channelFn";
+import {
+  AsyncChannel,
+  AutomaticChannel,
+  batch,
+  Channel,
+  ChannelCycleError,
+} from "./channel";
+import {
+  Debounce,
+  Delay,
+  Dictionary,
+  Interval,
+  List,
+  Number,
+  select,
+  String,
+  Throttle,
+  Timer,
+  unravelData,
+} from "./channelFn";
+import {
+  applyListOperation,
+  changes,
+  dictionaryChanges,
+  indexAll,
+  indexNone,
+  indices,
+  IndexSpecifier,
+  pathIndex,
+} from "./indexSpecifier";
+import { MissingPathError, range } from "./util";
+
+// Maps a list channel incrementally, as List.map does
+function map<T, U>(channel: Channel<T[]>, fn: (item: T) => U) {
+  return new AutomaticChannel(
+    [channel],
+    (items) => items.map(fn),
+    [(index) => index],
+    (items, data, i) => {
+      data[i as number] = fn(items[0][i as number]);
+    },
+    (_, data, operation) => applyListOperation(data, operation)
+  );
+}
 
 describe("basic operators", () => {
   test("addition", () => {
@@ -77,6 +120,569 @@ describe("channel", () => {
   });
 });
 
+describe("subscribe", () => {
+  test("data channel", () => {
+    const number = new Number(1);
+    const subscriber = jest.fn();
+    number.subscribe(subscriber);
+
+    // Setting data runs the subscriber with the new data
+    number.data = 2;
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith(2, indexAll);
+  });
+
+  test("automatic channel", () => {
+    const list = new List([1, 2, 3]);
+    const listDoubled = list.map((x) => x * 2);
+    const subscriber = jest.fn();
+    listDoubled.subscribe(subscriber);
+
+    // The subscriber receives the new data and what changed
+    list.setItem(1, 10);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith([2, 20, 6], indices([1]));
+
+    list.push(4);
+    expect(subscriber).toHaveBeenCalledTimes(2);
+    expect(subscriber).toHaveBeenLastCalledWith(
+      [2, 20, 6, 8],
+      changes([{ operation: "Insert", index: 3 }], [3])
+    );
+  });
+
+  test("unsubscribe", () => {
+    const number = new Number(1);
+    const numberPlusOne = Number.add(number, new Number(1));
+    const subscriber1 = jest.fn();
+    const subscriber2 = jest.fn();
+    const unsubscribe1 = numberPlusOne.subscribe(subscriber1);
+    numberPlusOne.subscribe(subscriber2);
+
+    number.data = 2;
+    expect(subscriber1).toHaveBeenLastCalledWith(3, indexAll);
+    expect(subscriber2).toHaveBeenLastCalledWith(3, indexAll);
+
+    // Unsubscribed callbacks are no longer run
+    unsubscribe1();
+    number.data = 3;
+    expect(subscriber1).toHaveBeenCalledTimes(1);
+    expect(subscriber2).toHaveBeenCalledTimes(2);
+    expect(subscriber2).toHaveBeenLastCalledWith(4, indexAll);
+
+    // Unsubscribing again has no effect
+    unsubscribe1();
+    expect(numberPlusOne.subscribers).toHaveLength(1);
+  });
+});
+
+describe("dispose", () => {
+  test("automatic channel disconnects from incoming channels", () => {
+    const number1 = new Number(1);
+    const number2 = new Number(2);
+    const sum = Number.add(number1, number2);
+    const subscriber = jest.fn();
+    sum.subscribe(subscriber);
+    expect(number1.connectedChannels).toHaveLength(1);
+    expect(number2.connectedChannels).toHaveLength(1);
+
+    // Spy on the sum's update function
+    const sumUpdate = jest.spyOn(sum, "updateFunction");
+
+    sum.dispose();
+    expect(number1.connectedChannels).toHaveLength(0);
+    expect(number2.connectedChannels).toHaveLength(0);
+    expect(sum.subscribers).toHaveLength(0);
+
+    // Changes no longer reach the disposed channel
+    number1.data = 5;
+    expect(sumUpdate).toHaveBeenCalledTimes(0);
+    expect(subscriber).toHaveBeenCalledTimes(0);
+  });
+
+  test("other downstream channels stay connected", () => {
+    const list = new List([1, 2, 3]);
+    const listDoubled = list.map((x) => x * 2);
+    const listTripled = list.map((x) => x * 3);
+
+    listDoubled.dispose();
+    expect(list.connectedChannels).toHaveLength(1);
+
+    list.setItem(0, 10);
+    expect(listTripled.data).toEqual([30, 6, 9]);
+  });
+});
+
+describe("batch", () => {
+  test("subscribers run once with merged changes", () => {
+    const list = new List([1, 2, 3]);
+    const listDoubled = list.map((x) => x * 2);
+    const subscriber = jest.fn();
+    listDoubled.subscribe(subscriber);
+
+    const result = batch(() => {
+      list.setItem(0, 10);
+      list.setItem(2, 30);
+      // Nothing runs until the batch finishes
+      expect(subscriber).toHaveBeenCalledTimes(0);
+      return "done";
+    });
+
+    expect(result).toEqual("done");
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith([20, 4, 60], indices([0, 2]));
+  });
+
+  test("eager channels update once", () => {
+    const number1 = new Number(1);
+    const number2 = new Number(2);
+    const sum = Number.add(number1, number2);
+    sum.eager = true;
+
+    // Spy on the sum's update function
+    const sumUpdate = jest.spyOn(sum, "updateFunction");
+
+    batch(() => {
+      number1.data = 10;
+      number2.data = 20;
+      // Lazily reading data inside a batch is still current
+      expect(sum.data).toEqual(30);
+      number1.data = 100;
+    });
+
+    expect(sumUpdate).toHaveBeenCalledTimes(2);
+    expect(sum.data).toEqual(120);
+  });
+
+  test("nested batches", () => {
+    const number = new Number(1);
+    const subscriber = jest.fn();
+    number.subscribe(subscriber);
+
+    batch(() => {
+      number.data = 2;
+      batch(() => {
+        number.data = 3;
+      });
+      // The inner batch does not run updates
+      expect(subscriber).toHaveBeenCalledTimes(0);
+    });
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith(3, indexAll);
+  });
+
+  test("updates run even if the batch throws", () => {
+    const number = new Number(1);
+    const subscriber = jest.fn();
+    number.subscribe(subscriber);
+
+    expect(() =>
+      batch(() => {
+        number.data = 2;
+        throw new Error("failed");
+      })
+    ).toThrow("failed");
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith(2, indexAll);
+  });
+});
+
+describe("glitch-free eager updates", () => {
+  test("diamond", () => {
+    // A -> B, A -> C, B + C -> D
+    const a = new Number(1);
+    const b = Number.add(a, new Number(1));
+    const c = new AutomaticChannel([a], (a) => a * 2);
+    const d = Number.add(b, c);
+    d.eager = true;
+    expect(d.data).toEqual(4);
+
+    // Spy on D's update function and subscribe to it
+    const dUpdate = jest.spyOn(d, "updateFunction");
+    const subscriber = jest.fn();
+    d.subscribe(subscriber);
+
+    // D recomputes once with both B and C current
+    a.data = 2;
+    expect(dUpdate).toHaveBeenCalledTimes(1);
+    expect(dUpdate).toHaveBeenLastCalledWith(3, 4);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith(7, indexAll);
+  });
+
+  test("diamond with uneven paths", () => {
+    // A -> B -> B2 -> D, A -> C -> D
+    const a = new Number(1);
+    const b = Number.add(a, new Number(1));
+    const b2 = Number.add(b, new Number(1));
+    const c = new AutomaticChannel([a], (a) => a * 2);
+    const d = new AutomaticChannel([c, b2], (c, b2) => `${c},${b2}`);
+
+    // Subscribe to every automatic channel to record the update order
+    const values: string[] = [];
+    d.subscribe((data) => values.push(`d=${data}`));
+    b2.subscribe((data) => values.push(`b2=${data}`));
+    c.subscribe((data) => values.push(`c=${data}`));
+    b.subscribe((data) => values.push(`b=${data}`));
+
+    a.data = 5;
+
+    // Upstream channels update first and D sees a consistent snapshot once
+    expect(values).toEqual(["b=6", "c=10", "b2=7", "d=10,7"]);
+  });
+
+  test("diamond with list changes", () => {
+    // A list mapped two ways and zipped back together
+    const list = new List([1, 2, 3]);
+    const doubled = list.map((x) => x * 2);
+    const tripled = list.map((x) => x * 3);
+    const zipped = new AutomaticChannel([doubled, tripled], (d, t) =>
+      d.map((x, i) => x + t[i])
+    );
+    zipped.eager = true;
+    expect(zipped.data).toEqual([5, 10, 15]);
+
+    // Spy on the zipped update function
+    const zippedUpdate = jest.spyOn(zipped, "updateFunction");
+
+    list.push(4);
+    expect(zippedUpdate).toHaveBeenCalledTimes(1);
+    expect(zipped.data).toEqual([5, 10, 15, 20]);
+  });
+
+  test("subscribers that change data", () => {
+    const number = new Number(1);
+    const doubled = new AutomaticChannel([number], (x) => x * 2);
+    const mirror = new Number(0);
+
+    // Keep the mirror in sync with the doubled number
+    doubled.subscribe((data) => {
+      mirror.data = data;
+    });
+    const subscriber = jest.fn();
+    mirror.subscribe(subscriber);
+
+    number.data = 4;
+    expect(mirror.data).toEqual(8);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenLastCalledWith(8, indexAll);
+  });
+});
+
+describe("cycles", () => {
+  test("connecting channels in a cycle throws", () => {
+    const number = new Number(1);
+    const plusOne = Number.add(number, new Number(1));
+    const plusTwo = Number.add(plusOne, new Number(1));
+
+    // Connecting the end of the chain back to its start forms a cycle
+    expect(() => plusTwo.connect(plusOne, () => indexAll)).toThrow(
+      ChannelCycleError
+    );
+    try {
+      plusTwo.connect(plusOne, () => indexAll);
+    } catch (e) {
+      expect((e as ChannelCycleError).channels).toEqual([
+        plusOne,
+        plusTwo,
+        plusOne,
+      ]);
+    }
+
+    // The graph is left unchanged
+    expect(plusTwo.connectedChannels).toHaveLength(0);
+    number.data = 2;
+    expect(plusTwo.data).toEqual(4);
+  });
+
+  test("cycles formed by hand are detected during propagation", () => {
+    const number = new Number(1);
+    const plusOne = Number.add(number, new Number(1));
+    const plusTwo = Number.add(plusOne, new Number(1));
+    plusTwo.connectedChannels.push({ channel: plusOne, connector: (i) => i });
+
+    expect(() => {
+      number.data = 2;
+    }).toThrow(ChannelCycleError);
+    try {
+      number.data = 3;
+    } catch (e) {
+      expect((e as ChannelCycleError).channels).toEqual([
+        plusOne,
+        plusTwo,
+        plusOne,
+      ]);
+      expect((e as ChannelCycleError).message).toEqual(
+        "Channels are connected in a cycle: " +
+          "AutomaticChannel -> AutomaticChannel -> AutomaticChannel"
+      );
+    }
+  });
+
+  test("subscribers can change the channel they subscribe to", () => {
+    const number = new Number(1);
+    number.subscribe((value) => {
+      if (value > 10) number.data = 10;
+    });
+    number.data = 20;
+    expect(number.data).toEqual(10);
+  });
+
+  test("subscribers can change channels upstream", () => {
+    const list = new List([1, 2]);
+    const doubled = list.map((x) => x * 2);
+    doubled.subscribe((items) => {
+      if (items.length > 2) list.pop();
+    });
+    list.push(3);
+    expect(list.data).toEqual([1, 2]);
+    expect(doubled.data).toEqual([2, 4]);
+  });
+
+  test("connecting channels with many shared paths is fast", () => {
+    // A chain of diamonds, with 2^50 paths from its start to its end
+    const start = new Number(1);
+    let end: Channel<number> = start;
+    for (let i = 0; i < 50; i++) {
+      end = Number.add(Number.add(end, new Number(1)), end);
+    }
+
+    // Connecting another channel upstream searches the whole chain for a cycle
+    const other = new Number(0);
+    other.connect(start, () => indexAll);
+    expect(() => end.connect(start, () => indexAll)).toThrow(ChannelCycleError);
+  });
+
+  test("connecting channels updates their rank", () => {
+    const number = new Number(1);
+    const plusOne = Number.add(number, new Number(1));
+    const other = new Number(5);
+    const otherPlusOne = Number.add(other, new Number(1));
+    expect(plusOne.rank).toEqual(1);
+    expect(otherPlusOne.rank).toEqual(1);
+
+    // Connecting a channel places it and its downstream channels after
+    plusOne.connect(other, () => indexAll);
+    expect(other.rank).toEqual(2);
+    expect(otherPlusOne.rank).toEqual(3);
+  });
+});
+
+describe("async channels", () => {
+  // A promise that can be settled from outside
+  function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  }
+
+  // Waits for settled promises to run their callbacks
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  test("pending, resolved and rejected", async () => {
+    const number = new Number(1);
+    const requests = [deferred<number>(), deferred<number>()];
+    const fetch = jest.fn((n: number) => requests[n - 1].promise);
+    const channel = new AsyncChannel([number], fetch, 0);
+
+    // Nothing is calculated until the data is read
+    expect(fetch).not.toHaveBeenCalled();
+    expect(channel.data).toEqual({
+      status: "pending",
+      value: 0,
+      error: undefined,
+    });
+
+    requests[0].resolve(10);
+    await settle();
+    expect(channel.status).toEqual("resolved");
+    expect(channel.value).toEqual(10);
+
+    // The previous value is kept while pending, and after an error
+    number.data = 2;
+    expect(channel.status).toEqual("pending");
+    expect(channel.value).toEqual(10);
+    requests[1].reject(new Error("failed"));
+    await settle();
+    expect(channel.data).toEqual({
+      status: "rejected",
+      value: 10,
+      error: new Error("failed"),
+    });
+  });
+
+  test("stale results are ignored", async () => {
+    const number = new Number(1);
+    const requests = [deferred<number>(), deferred<number>()];
+    const signals: AbortSignal[] = [];
+    const channel = new AsyncChannel([number], (n, signal) => {
+      signals.push(signal);
+      return requests[n - 1].promise;
+    });
+    const subscriber = jest.fn();
+    channel.subscribe(subscriber);
+    expect(channel.status).toEqual("pending");
+
+    // Changing the input aborts the calculation in flight
+    number.data = 2;
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBeTruthy();
+    expect(signals[1].aborted).toBeFalsy();
+
+    requests[1].resolve(20);
+    requests[0].resolve(10);
+    await settle();
+    expect(channel.value).toEqual(20);
+    expect(subscriber.mock.calls.map(([data]) => data.status)).toEqual([
+      "pending",
+      "resolved",
+    ]);
+  });
+
+  test("downstream channels update when settled", async () => {
+    const number = new Number(2);
+    const doubled = new AsyncChannel([number], async (n) => n * 2);
+    const label = new AutomaticChannel([doubled], (state) =>
+      state.status === "resolved" ? `${state.value}` : "loading"
+    );
+    expect(label.data).toEqual("loading");
+    await settle();
+    expect(label.data).toEqual("4");
+  });
+});
+
+describe("time", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("debounce", () => {
+    const text = new String("a");
+    const debounced = new Debounce(text, 100);
+    const subscriber = jest.fn();
+    debounced.subscribe(subscriber);
+    expect(debounced.data).toEqual("a");
+
+    text.data = "ab";
+    jest.advanceTimersByTime(50);
+    text.data = "abc";
+    jest.advanceTimersByTime(50);
+    // The wait restarted with the second change
+    expect(debounced.data).toEqual("a");
+    expect(subscriber).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(50);
+    expect(debounced.data).toEqual("abc");
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  test("throttle", () => {
+    const number = new Number(0);
+    const throttled = new Throttle(number, 100);
+    const subscriber = jest.fn();
+    throttled.subscribe(subscriber);
+
+    // The first change passes right away
+    number.data = 1;
+    expect(subscriber).toHaveBeenLastCalledWith(1, indexAll);
+
+    // Later changes in the period pass together at its end
+    number.data = 2;
+    number.data = 3;
+    expect(throttled.data).toEqual(1);
+    jest.advanceTimersByTime(100);
+    expect(subscriber).toHaveBeenCalledTimes(2);
+    expect(subscriber).toHaveBeenLastCalledWith(3, indexAll);
+
+    // Once a period passes with no changes, the next change passes right away
+    jest.advanceTimersByTime(100);
+    number.data = 4;
+    expect(subscriber).toHaveBeenCalledTimes(3);
+  });
+
+  test("delay passes on fine-grained changes", () => {
+    const list = new List([1, 2, 3]);
+    const delayed = new Delay(list, 100);
+    const mapFn = jest.fn((x: number) => x * 2);
+    const mapped = new AutomaticChannel(
+      [delayed],
+      (items) => items.map(mapFn),
+      [(index) => index],
+      (items, data, i) => {
+        data[i as number] = mapFn(items[0][i as number]);
+      }
+    );
+    expect(mapped.data).toEqual([2, 4, 6]);
+
+    list.setItem(1, 20);
+    expect(mapped.data).toEqual([2, 4, 6]);
+    mapFn.mockClear();
+    jest.advanceTimersByTime(100);
+    expect(mapped.data).toEqual([2, 40, 6]);
+    expect(mapFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("delay passes on each structural change with its own data", () => {
+    const list = new List(["a", "b"]);
+    const delayed = new Delay(list, 100);
+    const upper = map(delayed, (text) => text.toUpperCase());
+    expect(upper.data).toEqual(["A", "B"]);
+
+    list.insert(0, "x");
+    jest.advanceTimersByTime(50);
+    list.insert(0, "y");
+    jest.advanceTimersByTime(50);
+    expect(delayed.data).toEqual(["x", "a", "b"]);
+    expect(upper.data).toEqual(["X", "A", "B"]);
+    jest.advanceTimersByTime(50);
+    expect(upper.data).toEqual(["Y", "X", "A", "B"]);
+  });
+
+  test("debounced lists keep their data until changes pass", () => {
+    const list = new List([1, 2]);
+    const debounced = new Debounce(list, 100);
+    expect(debounced.data).toEqual([1, 2]);
+
+    list.setItem(0, 10);
+    list.push(3);
+    expect(debounced.data).toEqual([1, 2]);
+    jest.advanceTimersByTime(100);
+    expect(debounced.data).toEqual([10, 2, 3]);
+  });
+
+  test("interval and timer", () => {
+    const interval = new Interval(10);
+    const timer = new Timer(25);
+    jest.advanceTimersByTime(30);
+    expect(interval.data).toEqual(3);
+    expect(timer.data).toBe(true);
+
+    // Disposed intervals stop counting
+    interval.dispose();
+    jest.advanceTimersByTime(30);
+    expect(interval.data).toEqual(3);
+  });
+
+  test("disposal drops pending changes", () => {
+    const text = new String("a");
+    const debounced = new Debounce(text, 100);
+    expect(debounced.data).toEqual("a");
+    text.data = "b";
+    debounced.dispose();
+    expect(jest.getTimerCount()).toEqual(0);
+  });
+});
+
 describe("list", () => {
   test("map", () => {
     // Double all the elements of a list with a map function
@@ -161,8 +767,9 @@ describe("list", () => {
 
     expect(tenMinusList.data).toEqual([9, 8, 0, 7, 6]);
 
+    // Only the inserted item is calculated
     expect(updateFunction).toBeCalledTimes(0);
-    expect(updateIndexFunction).toBeCalledTimes(3);
+    expect(updateIndexFunction).toBeCalledTimes(1);
   });
 
   test("insert twice (before)", () => {
@@ -182,7 +789,7 @@ describe("list", () => {
     expect(tenMinusList.data).toEqual([9, 8, -1, 0, 7, 6]);
 
     expect(updateFunction).toBeCalledTimes(0);
-    expect(updateIndexFunction).toBeCalledTimes(4);
+    expect(updateIndexFunction).toBeCalledTimes(2);
   });
 
   test("insert twice (after)", () => {
@@ -202,7 +809,7 @@ describe("list", () => {
     expect(tenMinusList.data).toEqual([9, 8, 0, -1, 7, 6]);
 
     expect(updateFunction).toBeCalledTimes(0);
-    expect(updateIndexFunction).toBeCalledTimes(4);
+    expect(updateIndexFunction).toBeCalledTimes(2);
   });
 
   test("insert twice (beginning and end)", () => {
@@ -222,7 +829,215 @@ describe("list", () => {
     expect(tenMinusList.data).toEqual([0, 9, 8, 7, 6, -1]);
 
     expect(updateFunction).toBeCalledTimes(0);
-    expect(updateIndexFunction).toBeCalledTimes(6);
+    expect(updateIndexFunction).toBeCalledTimes(2);
+  });
+
+  test("remove", () => {
+    const list = new List([1, 2, 3, 4]);
+    const tenMinusList = list.map((x) => 10 - x);
+
+    expect(tenMinusList.data).toEqual([9, 8, 7, 6]);
+
+    // Spy on the overall update function
+    const updateFunction = jest.spyOn(tenMinusList, "updateFunction");
+    // Spy on the index update function
+    const updateIndexFunction = jest.spyOn(tenMinusList, "updateIndexFunction");
+
+    expect(list.remove(1)).toEqual(2);
+    expect(list.data).toEqual([1, 3, 4]);
+
+    expect(tenMinusList.data).toEqual([9, 7, 6]);
+
+    // Nothing needs to be calculated to remove an item
+    expect(updateFunction).toBeCalledTimes(0);
+    expect(updateIndexFunction).toBeCalledTimes(0);
+  });
+
+  test("pop", () => {
+    const list = new List([1, 2, 3]);
+    const tenMinusList = list.map((x) => 10 - x);
+
+    expect(tenMinusList.data).toEqual([9, 8, 7]);
+
+    // Spy on the overall update function
+    const updateFunction = jest.spyOn(tenMinusList, "updateFunction");
+    // Spy on the index update function
+    const updateIndexFunction = jest.spyOn(tenMinusList, "updateIndexFunction");
+
+    expect(list.pop()).toEqual(3);
+    expect(list.pop()).toEqual(2);
+
+    expect(tenMinusList.data).toEqual([9]);
+
+    expect(updateFunction).toBeCalledTimes(0);
+    expect(updateIndexFunction).toBeCalledTimes(0);
+
+    // Popping the last item and then an empty list
+    expect(list.pop()).toEqual(1);
+    expect(list.pop()).toBeUndefined();
+    expect(tenMinusList.data).toEqual([]);
+  });
+
+  test("splice", () => {
+    const list = new List([1, 2, 3, 4, 5]);
+    const tenMinusList = list.map((x) => 10 - x);
+
+    expect(tenMinusList.data).toEqual([9, 8, 7, 6, 5]);
+
+    // Spy on the overall update function
+    const updateFunction = jest.spyOn(tenMinusList, "updateFunction");
+    // Spy on the index update function
+    const updateIndexFunction = jest.spyOn(tenMinusList, "updateIndexFunction");
+
+    // Replacing items without changing the length only dirties those items
+    expect(list.splice(1, 2, 20, 30)).toEqual([2, 3]);
+    expect(tenMinusList.data).toEqual([9, -10, -20, 6, 5]);
+    expect(updateIndexFunction).toBeCalledTimes(2);
+
+    // Removing more items than are inserted shrinks the mapped list
+    expect(list.splice(2, 3, 40)).toEqual([30, 4, 5]);
+    expect(tenMinusList.data).toEqual([9, -10, -30]);
+    expect(updateIndexFunction).toBeCalledTimes(3);
+
+    // Inserting more items than are removed grows the mapped list
+    expect(list.splice(0, 1, 7, 8)).toEqual([1]);
+    expect(tenMinusList.data).toEqual([3, 2, -10, -30]);
+    expect(updateIndexFunction).toBeCalledTimes(5);
+
+    expect(updateFunction).toBeCalledTimes(0);
+  });
+
+  test("splice describes runs of items with one operation each", () => {
+    const list = new List([1, 2, 3, 4, 5]);
+    const total = Number.sum(list);
+    const tenMinusList = list.map((x) => 10 - x);
+    expect(total.data).toEqual(15);
+    expect(tenMinusList.data).toEqual([9, 8, 7, 6, 5]);
+
+    const subscriber = jest.fn();
+    list.subscribe(subscriber);
+    list.splice(1, 3, 6);
+    expect(subscriber).toHaveBeenLastCalledWith(
+      [1, 6, 5],
+      changes([{ operation: "Delete", index: 2, count: 2 }], [1])
+    );
+    expect(total.data).toEqual(12);
+    expect(tenMinusList.data).toEqual([9, 4, 5]);
+
+    list.splice(1, 0, 7, 8, 9);
+    expect(subscriber).toHaveBeenLastCalledWith(
+      [1, 7, 8, 9, 6, 5],
+      changes([{ operation: "Insert", index: 1, count: 3 }], [1, 2, 3])
+    );
+    expect(total.data).toEqual(36);
+    expect(tenMinusList.data).toEqual([9, 3, 2, 1, 4, 5]);
+  });
+
+  test("splice out of range", () => {
+    const list = new List([1, 2, 3]);
+    const timesTen = list.map((x) => x * 10);
+    expect(timesTen.data).toEqual([10, 20, 30]);
+
+    // A negative start counts back from the end
+    expect(list.splice(-2, 0, 9)).toEqual([]);
+    expect(list.data).toEqual([1, 9, 2, 3]);
+    expect(timesTen.data).toEqual([10, 90, 20, 30]);
+    expect(list.splice(-10, 1)).toEqual([1]);
+    expect(timesTen.data).toEqual([90, 20, 30]);
+
+    // A start past the end is the end, and the delete count is clamped
+    expect(list.splice(10, 5, 4)).toEqual([]);
+    expect(timesTen.data).toEqual([90, 20, 30, 40]);
+    expect(list.splice(2, 10)).toEqual([3, 4]);
+    expect(timesTen.data).toEqual([90, 20]);
+
+    // Insert and remove inherit the same handling
+    list.insert(-1, 5);
+    list.remove(10);
+    expect(list.data).toEqual([9, 5, 2]);
+    expect(timesTen.data).toEqual([90, 50, 20]);
+  });
+
+  test("insert at beginning of large list", () => {
+    const list = new List(range(0, 10000));
+    const tenMinusList = list.map((x) => 10 - x);
+    expect(tenMinusList.data[9999]).toEqual(-9989);
+
+    // Spy on the overall update function
+    const updateFunction = jest.spyOn(tenMinusList, "updateFunction");
+    // Spy on the index update function
+    const updateIndexFunction = jest.spyOn(tenMinusList, "updateIndexFunction");
+
+    list.insert(0, 10);
+
+    expect(tenMinusList.data.slice(0, 3)).toEqual([0, 10, 9]);
+    expect(tenMinusList.data.length).toEqual(10001);
+
+    // Only the inserted item is calculated
+    expect(updateFunction).toBeCalledTimes(0);
+    expect(updateIndexFunction).toBeCalledTimes(1);
+  });
+
+  test("move", () => {
+    const list = new List([1, 2, 3, 4]);
+    const tenMinusList = list.map((x) => 10 - x);
+
+    expect(tenMinusList.data).toEqual([9, 8, 7, 6]);
+
+    // Spy on the overall update function
+    const updateFunction = jest.spyOn(tenMinusList, "updateFunction");
+    // Spy on the index update function
+    const updateIndexFunction = jest.spyOn(tenMinusList, "updateIndexFunction");
+
+    list.move(0, 2);
+    expect(list.data).toEqual([2, 3, 1, 4]);
+    list.setItem(2, 5);
+
+    expect(tenMinusList.data).toEqual([8, 7, 5, 6]);
+
+    // Only the item that was set is calculated
+    expect(updateFunction).toBeCalledTimes(0);
+    expect(updateIndexFunction).toBeCalledTimes(1);
+  });
+
+  test("move with negative and out of range indices", () => {
+    const list = new List([1, 2, 3]);
+    const mapped = list.map((x) => x * 10);
+    mapped.data;
+
+    list.setItem(2, 9);
+    list.move(-1, 0);
+    expect(list.data).toEqual([9, 1, 2]);
+    expect(mapped.data).toEqual([90, 10, 20]);
+
+    // Out of range moves change nothing
+    const changed: IndexSpecifier[] = [];
+    list.subscribe((_, indexSpecifier) => changed.push(indexSpecifier));
+    list.move(5, 0);
+    list.move(0, -4);
+    expect(list.data).toEqual([9, 1, 2]);
+    expect(mapped.data).toEqual([90, 10, 20]);
+    expect(changed).toEqual([]);
+  });
+
+  test("set item before structural changes", () => {
+    const list = new List([1, 2, 3, 4]);
+    const tenMinusList = list.map((x) => 10 - x);
+
+    expect(tenMinusList.data).toEqual([9, 8, 7, 6]);
+
+    // Spy on the index update function
+    const updateIndexFunction = jest.spyOn(tenMinusList, "updateIndexFunction");
+
+    // Set items that are then shifted and removed by later changes
+    list.setItem(1, 20);
+    list.setItem(2, 30);
+    list.insert(0, 10);
+    list.remove(3);
+
+    expect(list.data).toEqual([10, 1, 20, 4]);
+    expect(tenMinusList.data).toEqual([0, 9, -10, 6]);
+    expect(updateIndexFunction).toBeCalledTimes(2);
   });
 
   test("sum", () => {
@@ -237,7 +1052,237 @@ describe("list", () => {
     list.push(100);
     expect(sum.data).toEqual(110);
 
-    expect(updateFunction).toBeCalledTimes(1);
+    // Changes are applied as deltas rather than summing the list again
+    list.setItem(1, 2);
+    list.remove(0);
+    list.move(1, 0);
+    expect(sum.data).toEqual(102);
+    expect(updateFunction).toBeCalledTimes(0);
+  });
+});
+
+describe("list operators", () => {
+  // Derives a list from a list channel, recording what changed each time
+  function watch<T>(channel: Channel<T[]>) {
+    const changed: IndexSpecifier[] = [];
+    channel.subscribe((_, indexSpecifier) => changed.push(indexSpecifier));
+    return changed;
+  }
+
+  test("chaining", () => {
+    const list = new List([5, 2, 8, 1, 9, 4]);
+    const top = list
+      .filter((x) => x % 2 === 0)
+      .sort((a, b) => b - a)
+      .slice(0, 2);
+    const labels = top.map((x) => `#${x}`);
+    const total = top.reduce(
+      (total, x) => total + x,
+      0,
+      (total, x) => total - x
+    );
+    const changed = watch(labels);
+    expect(labels.data).toEqual(["#8", "#4"]);
+    expect(total.data).toEqual(12);
+
+    list.setItem(1, 10);
+    expect(labels.data).toEqual(["#10", "#8"]);
+    expect(total.data).toEqual(18);
+    expect(changed).toHaveLength(1);
+
+    list.remove(2);
+    expect(labels.data).toEqual(["#10", "#4"]);
+    expect(total.data).toEqual(14);
+  });
+
+  test("filter", () => {
+    const list = new List([1, 2, 3, 4]);
+    const evens = list.filter((x) => x % 2 === 0);
+    const changed = watch(evens);
+    const fn = jest.fn((x: number) => x * 10);
+    const mapped = map(evens, fn);
+    expect(mapped.data).toEqual([20, 40]);
+    fn.mockClear();
+
+    // An item starting to pass is inserted
+    list.setItem(0, 6);
+    expect(changed.pop()).toEqual(
+      changes([{ operation: "Insert", index: 0 }], [0])
+    );
+    // An item that stops passing is deleted
+    list.setItem(1, 5);
+    expect(changed.pop()).toEqual(
+      changes([{ operation: "Delete", index: 1 }], [])
+    );
+    // An item that still passes is just dirty
+    list.setItem(3, 8);
+    expect(changed.pop()).toEqual(indices([1]));
+    // Items that do not pass never change the filtered list
+    list.setItem(2, 7);
+    expect(changed.pop()).toEqual(indexNone);
+
+    expect(evens.data).toEqual([6, 8]);
+    expect(mapped.data).toEqual([60, 80]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test("derived lists are derived lazily", () => {
+    const list = new List(range(0, 100));
+    const predicate = jest.fn((x: number) => x % 2 === 0);
+    const evens = list.filter(predicate);
+    const doubled = map(evens, (x) => x * 2);
+    expect(doubled.data).toHaveLength(50);
+    predicate.mockClear();
+    const evensUpdate = jest.spyOn(evens, "updateFunction");
+
+    // Unread changes are only collected
+    for (let i = 0; i < 10; i++) {
+      list.setItem(i, i + 1);
+    }
+    list.remove(99);
+    expect(evensUpdate).not.toHaveBeenCalled();
+    expect(predicate).not.toHaveBeenCalled();
+
+    // The items are derived once, checking just the changed items
+    expect(doubled.data).toEqual(
+      list.data.filter((x) => x % 2 === 0).map((x) => x * 2)
+    );
+    expect(evensUpdate).toHaveBeenCalledTimes(1);
+    expect(predicate).toHaveBeenCalledTimes(10);
+  });
+
+  test("sort", () => {
+    const list = new List([3, 1, 2]);
+    const sorted = list.sort((a, b) => a - b);
+    const changed = watch(sorted);
+    expect(sorted.data).toEqual([1, 2, 3]);
+
+    // Changing an item moves it
+    list.setItem(0, 0);
+    expect(changed.pop()).toEqual(
+      changes([{ operation: "Move", from: 2, to: 0 }], [0])
+    );
+    list.push(1.5);
+    expect(sorted.data).toEqual([0, 1, 1.5, 2]);
+  });
+
+  test("slice", () => {
+    const list = new List([1, 2, 3, 4]);
+    const sliced = list.slice(1, 3);
+    expect(sliced.data).toEqual([2, 3]);
+
+    list.insert(0, 0);
+    expect(sliced.data).toEqual([1, 2]);
+    list.setItem(2, 20);
+    expect(sliced.data).toEqual([1, 20]);
+  });
+
+  test("flat map", () => {
+    const list = new List([1, 2]);
+    const fn = jest.fn((x: number) => range(0, x).map(() => x));
+    const flat = list.flatMap(fn);
+    expect(flat.data).toEqual([1, 2, 2]);
+    fn.mockClear();
+
+    list.setItem(0, 3);
+    list.remove(1);
+    expect(flat.data).toEqual([3, 3, 3]);
+    // Only the changed item is mapped again
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test("concat", () => {
+    const list1 = new List([1, 2]);
+    const list2 = new List([3]);
+    const concatenated = list1.concat(list2);
+    const changed = watch(concatenated);
+    expect(concatenated.data).toEqual([1, 2, 3]);
+
+    list2.push(4);
+    expect(changed.pop()).toEqual(
+      changes([{ operation: "Insert", index: 3 }], [3])
+    );
+    list1.remove(0);
+    list2.setItem(0, 30);
+    expect(changed.pop()).toEqual(indices([1]));
+    expect(concatenated.data).toEqual([2, 30, 4]);
+  });
+
+  test("reduce", () => {
+    const list = new List(["a", "b"]);
+    const joined = list.reduce((text, item) => text + item, "");
+    expect(joined.data).toEqual("ab");
+    list.insert(0, "c");
+    expect(joined.data).toEqual("cab");
+  });
+
+  test("reduce items changed by path", () => {
+    const list = new List([{ price: 1 }, { price: 2 }]);
+    const total = list.reduce(
+      (total, item) => total + item.price,
+      0,
+      (total, item) => total - item.price
+    );
+    expect(total.data).toEqual(3);
+
+    list.setPath([0, "price"], 10);
+    expect(total.data).toEqual(12);
+    batch(() => {
+      list.setPath([1, "price"], 20);
+      list.push({ price: 30 });
+    });
+    expect(total.data).toEqual(60);
+
+    // Later changes are applied as deltas again
+    list.setItem(2, { price: 3 });
+    expect(total.data).toEqual(33);
+  });
+
+  test("random changes", () => {
+    // A small deterministic pseudorandom number generator
+    let seed = 1;
+    const random = (n: number) => {
+      seed = (seed * 16807) % 2147483647;
+      return seed % n;
+    };
+
+    const list = new List(range(0, 10).map(() => random(20)));
+    const derived: [Channel<number[]>, (x: number[]) => any][] = [
+      [list.filter((x) => x % 3 !== 0), (x) => x.filter((x) => x % 3 !== 0)],
+      [list.sort((a, b) => a - b), (x) => [...x].sort((a, b) => a - b)],
+      [list.slice(2, 6), (x) => x.slice(2, 6)],
+      [
+        list.flatMap((x) => range(0, x % 3)),
+        (x) => x.flatMap((x) => range(0, x % 3)),
+      ],
+      [list.concat(list.map((x) => -x)), (x) => [...x, ...x.map((x) => -x)]],
+    ];
+    // Map each derived list too, so its changes are applied downstream
+    const mapped = derived.map(([channel]) => map(channel, (x) => x * 2));
+
+    for (let step = 0; step < 200; step++) {
+      batch(() => {
+        for (let change = random(3) + 1; change > 0; change--) {
+          const length = list.data.length;
+          const action = random(5);
+          if (action === 0 || length === 0) {
+            list.insert(random(length + 1), random(20));
+          } else if (action === 1) {
+            list.remove(random(length));
+          } else if (action === 2) {
+            list.move(random(length), random(length));
+          } else {
+            list.setItem(random(length), random(20));
+          }
+        }
+      });
+      derived.forEach(([channel, expected], i) => {
+        expect(channel.data).toEqual(expected(list.data));
+        expect(mapped[i].data).toEqual(
+          expected(list.data).map((x: number) => x * 2)
+        );
+      });
+    }
   });
 });
 
@@ -276,6 +1321,192 @@ describe("dictionary", () => {
     expect(parenthesesDictionary.data).toEqual({ a: "(5)", b: "(3)" });
     expect(updateFunction).toBeCalledTimes(0);
     expect(updateIndexFunction).toBeCalledTimes(1);
+
+    // Removed keys are removed
+    dictionary.delete("b");
+    expect(parenthesesDictionary.data).toEqual({ a: "(5)" });
+    expect(updateFunction).toBeCalledTimes(0);
+
+    // Keys added back go to the end, which rebuilds the mapped dictionary
+    batch(() => {
+      dictionary.delete("a");
+      dictionary.setItem("c", 1);
+      dictionary.setItem("a", 2);
+    });
+    expect(Object.entries(parenthesesDictionary.data)).toEqual([
+      ["c", "(1)"],
+      ["a", "(2)"],
+    ]);
+    expect(updateFunction).toBeCalledTimes(1);
+  });
+
+  test("delete and has", () => {
+    const dictionary = new Dictionary<number>({ a: 1 });
+    const changed = jest.fn();
+    dictionary.subscribe(changed);
+    expect(dictionary.has("a")).toBeTruthy();
+    expect(dictionary.has("toString")).toBeFalsy();
+
+    dictionary.setItem("b", 2);
+    expect(changed).toHaveBeenLastCalledWith(
+      { a: 1, b: 2 },
+      dictionaryChanges(["b"], [])
+    );
+    dictionary.setItem("b", 3);
+    expect(changed).toHaveBeenLastCalledWith({ a: 1, b: 3 }, indices(["b"]));
+
+    expect(dictionary.delete("a")).toBeTruthy();
+    expect(dictionary.has("a")).toBeFalsy();
+    expect(changed).toHaveBeenLastCalledWith(
+      { b: 3 },
+      dictionaryChanges([], ["a"])
+    );
+    // Deleting a missing key changes nothing
+    expect(dictionary.delete("a")).toBeFalsy();
+    expect(changed).toHaveBeenCalledTimes(3);
+  });
+
+  test("incremental keys, values and entries", () => {
+    const dictionary = new Dictionary<number>({ a: 1, b: 2, c: 3 });
+    const keys = dictionary.keys();
+    const values = dictionary.values();
+    const entries = dictionary.entries();
+    const doubled = map(values, (x) => x * 2);
+    expect(keys.data).toEqual(["a", "b", "c"]);
+    expect(entries.data).toEqual([
+      ["a", 1],
+      ["b", 2],
+      ["c", 3],
+    ]);
+    expect(doubled.data).toEqual([2, 4, 6]);
+    const updates = [keys, values, entries, doubled].map((channel) =>
+      jest.spyOn(channel, "updateFunction")
+    );
+    const doubleIndex = jest.spyOn(doubled, "updateIndexFunction");
+
+    dictionary.setItem("b", 20);
+    expect(values.data).toEqual([1, 20, 3]);
+    expect(doubled.data).toEqual([2, 40, 6]);
+    expect(doubleIndex).toBeCalledTimes(1);
+
+    dictionary.delete("a");
+    dictionary.setItem("d", 4);
+    expect(keys.data).toEqual(["b", "c", "d"]);
+    expect(entries.data).toEqual([
+      ["b", 20],
+      ["c", 3],
+      ["d", 4],
+    ]);
+    expect(doubled.data).toEqual([40, 6, 8]);
+    // Only the added value is doubled
+    expect(doubleIndex).toBeCalledTimes(2);
+
+    // Number keys come first, in order
+    dictionary.setItem(2, 5);
+    dictionary.setItem(1, 6);
+    expect(keys.data).toEqual(["1", "2", "b", "c", "d"]);
+    expect(values.data).toEqual([6, 5, 20, 3, 4]);
+
+    for (const update of updates) {
+      expect(update).toBeCalledTimes(0);
+    }
+  });
+
+  test("random changes", () => {
+    // A small deterministic pseudorandom number generator
+    let seed = 1;
+    const random = (n: number) => {
+      seed = (seed * 16807) % 2147483647;
+      return seed % n;
+    };
+    const names = ["a", "b", "c", "d", 1, 2, 3];
+
+    const dictionary = new Dictionary<number>({});
+    const entries = dictionary.entries();
+    const mapped = dictionary.map((x) => x * 2);
+    for (let step = 0; step < 200; step++) {
+      batch(() => {
+        for (let change = random(3) + 1; change > 0; change--) {
+          const key = names[random(names.length)];
+          if (random(3) === 0) {
+            dictionary.delete(key);
+          } else {
+            dictionary.setItem(key, random(20));
+          }
+        }
+      });
+      expect(entries.data).toEqual(Object.entries(dictionary.data));
+      expect(Object.entries(mapped.data)).toEqual(
+        Object.entries(dictionary.data).map(([key, x]) => [key, x * 2])
+      );
+    }
+  });
+});
+
+describe("paths", () => {
+  test("set path in list of records", () => {
+    const list = new List([
+      { name: "a", price: 1 },
+      { name: "b", price: 2 },
+    ]);
+    const changed = jest.fn();
+    list.subscribe(changed);
+    const price = select<number>(list, [1, "price"]);
+    const name = select<string>(list, [1, "name"]);
+    expect(price.data).toEqual(2);
+    expect(name.data).toEqual("b");
+    const nameUpdate = jest.spyOn(name, "updateFunction");
+
+    list.setPath([1, "price"], 20);
+    expect(changed).toHaveBeenLastCalledWith(
+      list.data,
+      pathIndex([1, "price"])
+    );
+    expect(price.data).toEqual(20);
+    // The name was never marked dirty
+    expect(name.data).toEqual("b");
+    expect(nameUpdate).not.toHaveBeenCalled();
+  });
+
+  test("selected lists are fine-grained", () => {
+    const dictionary = new Dictionary({ a: [1, 2, 3], b: [4] });
+    const fn = jest.fn((x: number) => x * 10);
+    const list = select<number[]>(dictionary, ["a"]);
+    const mapped = new AutomaticChannel(
+      [list],
+      (items) => items.map(fn),
+      [(index) => index],
+      (items, data, i) => {
+        data[i as number] = fn(items[0][i as number]);
+      }
+    );
+    expect(mapped.data).toEqual([10, 20, 30]);
+    fn.mockClear();
+
+    dictionary.setPath(["a", 1], 5);
+    dictionary.setPath(["b", 0], 6);
+    expect(mapped.data).toEqual([10, 50, 30]);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    // Replacing the list entirely updates everything
+    dictionary.setItem("a", [7]);
+    expect(mapped.data).toEqual([70]);
+  });
+
+  test("set path of a new key", () => {
+    const dictionary = new Dictionary<number | number[]>({ a: 1 });
+    const keys = dictionary.keys();
+    const values = dictionary.values();
+    expect(keys.data).toEqual(["a"]);
+    expect(values.data).toEqual([1]);
+
+    dictionary.setPath(["b"], 2);
+    expect(keys.data).toEqual(["a", "b"]);
+    expect(values.data).toEqual([1, 2]);
+
+    // Data the path leads through must exist
+    expect(() => dictionary.setPath(["c", 0], 3)).toThrow(MissingPathError);
+    expect(keys.data).toEqual(["a", "b"]);
   });
 });
 
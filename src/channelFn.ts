@@ -4,8 +4,28 @@
  */
 
 import { AutomaticChannel, Channel, DataChannel } from "./channel";
-import { indices, Key } from "./indexSpecifier";
-import { range, recordMap, sum } from "./util";
+import {
+  applyListOperation,
+  changes,
+  Changes,
+  dictionaryChanges,
+  indexAll,
+  indexEmpty,
+  indexNone,
+  indices,
+  Indices,
+  IndexSpecifier,
+  Key,
+  keyedChanges,
+  KeySet,
+  ListOperation,
+  mergeIndexSpecifiersInto,
+  narrowIndex,
+  normalizeIndexSpecifier,
+  pathIndex,
+  shiftIndex,
+} from "./indexSpecifier";
+import { getPath, range, recordMap, setPath, shallowCopy, sum } from "./util";
 
 /**
  * String channel
@@ -43,10 +63,504 @@ export class Number extends DataChannel<number> {
   }
 
   /**
-   * Sums a number list
+   * Sums a number list. Changes to the list add and subtract just the numbers
+   * that changed rather than summing the whole list again.
    */
   static sum(numbers: List<number>) {
-    return new AutomaticChannel([numbers], (numbers) => sum(numbers));
+    return numbers.reduce(
+      (total, number) => total + number,
+      0,
+      (total, number) => total - number
+    );
+  }
+}
+
+/**
+ * Tracks a unique ID for each item of a list as the list changes structurally,
+ * so the items of a derived list can be matched up before and after a change
+ */
+class ItemIds {
+  /**
+   * The ID of each item, in list order
+   */
+  public ids: number[] = [];
+
+  // The ID to give the next new item
+  protected nextId = 0;
+
+  /**
+   * Gives every item of a list a new ID
+   * @param length The length of the list
+   */
+  reset(length: number) {
+    this.ids = range(0, length).map(() => this.nextId++);
+  }
+
+  /**
+   * Applies a change to the list's IDs, giving inserted items new IDs
+   * @param indexSpecifier The list's change
+   * @returns The IDs of the items that changed (including inserted items)
+   */
+  apply(indexSpecifier: Indices | Changes): Set<number> {
+    if (indexSpecifier.indexType === "Changes") {
+      for (const operation of indexSpecifier.operations) {
+        if (operation.operation === "Insert") {
+          const count = operation.count ?? 1;
+          const ids = range(0, count).map(() => this.nextId++);
+          this.ids.splice(operation.index, 0, ...ids);
+        } else {
+          applyListOperation(this.ids, operation);
+        }
+      }
+    }
+    const changed = new Set<number>();
+    for (const index of indexSpecifier.indices) {
+      changed.add(this.ids[index as number]);
+    }
+    return changed;
+  }
+}
+
+/**
+ * An item of a derived list: its value, a key unique within the derived list,
+ * and the ID of the incoming item it is derived from
+ */
+interface DerivedItem<U> {
+  key: Key;
+  id: number;
+  value: U;
+}
+
+/**
+ * Returns whether a channel's data is read as soon as it changes: whether it or
+ * any channel downstream of it is eager or has subscribers
+ * @param channel The channel
+ * @param visited The channels already checked
+ * @returns Whether the channel is watched
+ */
+function watched(
+  channel: Channel<any>,
+  visited = new Set<Channel<any>>()
+): boolean {
+  if (channel.eager || channel.subscribers.length > 0) return true;
+  visited.add(channel);
+  return channel.connectedChannels.some(
+    ({ channel }) => !visited.has(channel) && watched(channel, visited)
+  );
+}
+
+/**
+ * An automatic channel of a list, derived from other channels. Like a list data
+ * channel, it can be mapped, filtered, sorted, sliced and reduced, so
+ * derivations can be chained.
+ */
+export class AutomaticList<
+  T,
+  IncomingChannelType extends Channel<any>[] | [Channel<any>]
+> extends AutomaticChannel<T[], IncomingChannelType> {
+  /**
+   * Applies a map function to the list (see {@link List.map})
+   */
+  map<U>(fn: (item: T) => U): AutomaticList<U, [Channel<T[]>]> {
+    return mapList(this, fn);
+  }
+
+  /**
+   * Filters the list (see {@link List.filter})
+   */
+  filter(predicate: (item: T) => boolean): AutomaticList<T, [Channel<T[]>]> {
+    return filterList(this, predicate);
+  }
+
+  /**
+   * Sorts the list stably (see {@link List.sort})
+   */
+  sort(
+    compare: (item1: T, item2: T) => number
+  ): AutomaticList<T, [Channel<T[]>]> {
+    return sortList(this, compare);
+  }
+
+  /**
+   * Slices the list (see {@link List.slice})
+   */
+  slice(start?: number, end?: number): AutomaticList<T, [Channel<T[]>]> {
+    return sliceList(this, start, end);
+  }
+
+  /**
+   * Maps each item of the list to a list of items and flattens the results
+   * (see {@link List.flatMap})
+   */
+  flatMap<U>(fn: (item: T) => U[]): AutomaticList<U, [Channel<T[]>]> {
+    return flatMapList(this, fn);
+  }
+
+  /**
+   * Concatenates other lists onto the end of the list (see
+   * {@link List.concat})
+   */
+  concat(...lists: Channel<T[]>[]): AutomaticList<T, Channel<T[]>[]> {
+    return concatLists([this, ...lists]);
+  }
+
+  /**
+   * Reduces the list to a single value (see {@link Reduce})
+   */
+  reduce<U>(
+    reducer: (accumulator: U, item: T) => U,
+    initialValue: U,
+    inverse?: (accumulator: U, item: T) => U
+  ): Reduce<T, U> {
+    return new Reduce<T, U>(this, reducer, initialValue, inverse);
+  }
+}
+
+/**
+ * A list channel whose items are derived from the items of another list, such
+ * as by filtering or sorting them. Changes to the incoming list are only
+ * collected as they happen (tracking which incoming items changed), and the
+ * items are derived again once, when the data is next read.
+ *
+ * Describing a change exactly to downstream channels means deriving the new
+ * items and matching them to the previous items by key, so it is only done
+ * when the change would be read right away anyway: when the channel is watched
+ * by an eager channel or subscriber. Downstream channels are then notified of
+ * just the structural operations and dirty indices needed to turn the previous
+ * items into the new ones. Otherwise, they are marked entirely dirty.
+ */
+class DerivedList<T, U> extends AutomaticList<U, [Channel<T[]>]> {
+  // The IDs of the incoming items
+  protected itemIds = new ItemIds();
+
+  // The keys of the derived items, or null if they need to be derived from
+  // scratch
+  protected keys: Key[] | null = null;
+
+  // The ID of the incoming item each derived item is derived from
+  protected sources: number[] = [];
+
+  // The IDs of the incoming items that changed since the items were derived
+  protected changed = new Set<number>();
+
+  /**
+   * @param list The incoming list
+   * @param derive Derives the items from the incoming list's items and their
+   * IDs. It is also given the IDs of the incoming items that changed (or null
+   * if all of them did), so it can avoid recalculating anything for the other
+   * items.
+   */
+  constructor(
+    list: Channel<T[]>,
+    readonly derive: (
+      items: T[],
+      ids: number[],
+      changed: Set<number> | null
+    ) => DerivedItem<U>[]
+  ) {
+    super(
+      [list],
+      (items) => {
+        if (this.keys == null) this.itemIds.reset(items.length);
+        const derived = derive(
+          items,
+          this.itemIds.ids,
+          this.keys == null ? null : this.changed
+        );
+        this.keys = derived.map(({ key }) => key);
+        this.sources = derived.map(({ id }) => id);
+        this.changed = new Set();
+        return derived.map(({ value }) => value);
+      },
+      [
+        // Only collect the change; the items are derived when next read
+        (indexSpecifier) => {
+          if (indexSpecifier.indexType === "None") return indexNone;
+          if (this.keys == null || indexSpecifier.indexType === "All") {
+            this.keys = null;
+          } else {
+            for (const id of this.itemIds.apply(indexSpecifier)) {
+              this.changed.add(id);
+            }
+          }
+          return indexAll;
+        },
+      ]
+    );
+  }
+
+  /**
+   * Marks the channel as dirty, describing exactly what changed to downstream
+   * channels if the channel is watched
+   */
+  markDirty(indexSpecifier: IndexSpecifier = indexAll) {
+    this.dirty = mergeIndexSpecifiersInto(this.dirty, indexSpecifier);
+    const keys = this.keys;
+    if (keys == null || indexEmpty(indexSpecifier) || !watched(this)) {
+      this.propagate(indexSpecifier);
+      return;
+    }
+
+    // Derive the items now (by reading the data) and match them to the
+    // previous items
+    const changed = this.changed;
+    this.data;
+    const { operations, indices } = keyedChanges(keys, this.keys!);
+
+    // Items derived from changed items are dirty, as are inserted items
+    const dirty = new Set(indices);
+    this.sources.forEach((id, i) => {
+      if (changed.has(id)) dirty.add(i);
+    });
+    this.propagate(normalizeIndexSpecifier(changes(operations, [...dirty])));
+  }
+}
+
+// Maps each item of a list, updating just the changed items
+function mapList<T, U>(list: Channel<T[]>, fn: (item: T) => U) {
+  return new AutomaticList<U, [Channel<T[]>]>(
+    // Derived from only the list
+    [list],
+    // The mapping function is straightforward
+    (list: T[]) => list.map((item) => fn(item)),
+    // The channel connector is a one-to-one mapping
+    [(index) => index],
+    // The update index function
+    (items, data, i) => {
+      data[i as number] = fn(items[0][i as number]);
+    },
+    // The update operation function shifts the mapped items around so only
+    // inserted items have to be calculated
+    (_, data, operation) => applyListOperation(data, operation)
+  );
+}
+
+// Filters a list, only running the predicate again for changed items
+function filterList<T>(list: Channel<T[]>, predicate: (item: T) => boolean) {
+  let passing = new Map<number, boolean>();
+  return new DerivedList<T, T>(list, (items, ids, changed) => {
+    const previous = passing;
+    passing = new Map();
+    const derived: DerivedItem<T>[] = [];
+    ids.forEach((id, i) => {
+      const passes =
+        changed == null || changed.has(id)
+          ? predicate(items[i])
+          : previous.get(id)!;
+      passing.set(id, passes);
+      if (passes) derived.push({ key: id, id, value: items[i] });
+    });
+    return derived;
+  });
+}
+
+// Sorts a list stably
+function sortList<T>(
+  list: Channel<T[]>,
+  compare: (item1: T, item2: T) => number
+) {
+  return new DerivedList<T, T>(list, (items, ids) =>
+    range(0, items.length)
+      .sort((i, j) => compare(items[i], items[j]) || i - j)
+      .map((i) => ({ key: ids[i], id: ids[i], value: items[i] }))
+  );
+}
+
+// Slices a list, mirroring `Array.prototype.slice`
+function sliceList<T>(list: Channel<T[]>, start?: number, end?: number) {
+  return new DerivedList<T, T>(list, (items, ids) =>
+    range(0, items.length)
+      .slice(start, end)
+      .map((i) => ({ key: ids[i], id: ids[i], value: items[i] }))
+  );
+}
+
+// Maps each item of a list to a list of items and flattens the results, only
+// running the function again for changed items
+function flatMapList<T, U>(list: Channel<T[]>, fn: (item: T) => U[]) {
+  let results = new Map<number, U[]>();
+  return new DerivedList<T, U>(list, (items, ids, changed) => {
+    const previous = results;
+    results = new Map();
+    const derived: DerivedItem<U>[] = [];
+    ids.forEach((id, i) => {
+      const result =
+        changed == null || changed.has(id) ? fn(items[i]) : previous.get(id)!;
+      results.set(id, result);
+      result.forEach((value, j) => {
+        derived.push({ key: `${id}:${j}`, id, value });
+      });
+    });
+    return derived;
+  });
+}
+
+// Concatenates lists, shifting changes to any of them to where that list's
+// items are in the result
+function concatLists<T>(channels: Channel<T[]>[]) {
+  // The length of each list, or null if they need to be calculated
+  let lengths: number[] | null = null;
+
+  // Find which list and index an index of the result is in
+  const locate = (index: number): [number, number] => {
+    let list = 0;
+    while (index >= lengths![list]) {
+      index -= lengths![list++];
+    }
+    return [list, index];
+  };
+
+  return new AutomaticList<T, Channel<T[]>[]>(
+    channels,
+    (...lists) => {
+      lengths = lists.map((list) => list.length);
+      return lists.flat();
+    },
+    // Each list's connector shifts its changes past the lists before it
+    channels.map((_, list) => (indexSpecifier: IndexSpecifier) => {
+      if (indexSpecifier.indexType === "None") return indexNone;
+      if (lengths == null || indexSpecifier.indexType === "All") {
+        lengths = null;
+        return indexAll;
+      }
+
+      const offset = sum(lengths.slice(0, list));
+      const shift = (index: Key) => (index as number) + offset;
+      if (indexSpecifier.indexType === "Indices") {
+        return indices([...indexSpecifier.indices].map(shift));
+      }
+      const operations = indexSpecifier.operations.map(
+        (operation): ListOperation => {
+          if (operation.operation === "Move") {
+            return {
+              operation: "Move",
+              from: shift(operation.from),
+              to: shift(operation.to),
+            };
+          }
+          const count = operation.count ?? 1;
+          lengths![list] += operation.operation === "Insert" ? count : -count;
+          return { ...operation, index: shift(operation.index) };
+        }
+      );
+      return changes(operations, [...indexSpecifier.indices].map(shift));
+    }),
+    (lists, data, i) => {
+      const [list, index] = locate(i as number);
+      data[i as number] = lists[list][index];
+    },
+    (_, data, operation) => applyListOperation(data, operation)
+  );
+}
+
+/**
+ * A channel that reduces a list to a single value. If an inverse of the
+ * reducer is provided, changes to the list are applied as deltas: the
+ * contributions of changed and removed items are undone with the inverse and
+ * those of changed and inserted items are added with the reducer, rather than
+ * reducing the whole list again. This requires the order items are reduced in
+ * not to matter (as with a sum).
+ */
+export class Reduce<T, U> extends AutomaticChannel<U, [Channel<T[]>]> {
+  // A copy of the items the cached data was reduced from, so their
+  // contributions can be undone once they change
+  protected items: T[] = [];
+
+  /**
+   * @param list The list to reduce
+   * @param reducer Adds an item's contribution to the accumulated value
+   * @param initialValue The value of an empty list
+   * @param inverse Undoes an item's contribution to the accumulated value
+   */
+  constructor(
+    list: Channel<T[]>,
+    readonly reducer: (accumulator: U, item: T) => U,
+    readonly initialValue: U,
+    readonly inverse?: (accumulator: U, item: T) => U
+  ) {
+    super(
+      [list],
+      (items) => {
+        this.items = [...items];
+        return items.reduce(reducer, initialValue);
+      },
+      // Track which items changed to apply them as deltas
+      [(index) => index]
+    );
+  }
+
+  /**
+   * Marks the channel as dirty. The changed items are tracked, but the reduced
+   * value changes as a whole. Items changed by path (such as with
+   * `List.setPath`) were changed in place, so their previous contributions
+   * cannot be undone, and the list is reduced again instead.
+   */
+  markDirty(indexSpecifier: IndexSpecifier = indexAll) {
+    this.dirty = mergeIndexSpecifiersInto(
+      this.dirty,
+      indexSpecifier.indexType === "Indices" && indexSpecifier.paths != null
+        ? indexAll
+        : indexSpecifier
+    );
+    this.propagate(indexAll);
+  }
+
+  get data(): U {
+    const dirty = this.dirty;
+    if (
+      this.inverse == null ||
+      (dirty.indexType !== "Indices" && dirty.indexType !== "Changes")
+    ) {
+      return super.data;
+    }
+
+    const items = this.incomingChannels[0].data;
+    const inverse = this.inverse;
+    // Apply the changes as deltas, reported like an update index function
+    this.cachedData = this.measureUpdate("updateIndexFunction", dirty, () => {
+      let accumulator = this.cachedData;
+      // Positions of inserted items, which have no contribution to undo
+      const inserted = new Set<number>();
+      if (dirty.indexType === "Changes") {
+        for (const operation of dirty.operations) {
+          if (operation.operation === "Delete") {
+            const end = operation.index + (operation.count ?? 1);
+            for (let index = operation.index; index < end; index++) {
+              if (!inserted.has(index)) {
+                accumulator = inverse(accumulator, this.items[index]);
+              }
+            }
+          }
+          // Keep the inserted positions in step with the items
+          const shifted = [...inserted].map((index) =>
+            shiftIndex(index, operation)
+          );
+          inserted.clear();
+          for (const index of shifted) {
+            if (index != null) inserted.add(index as number);
+          }
+          if (operation.operation === "Insert") {
+            const end = operation.index + (operation.count ?? 1);
+            for (let index = operation.index; index < end; index++) {
+              inserted.add(index);
+            }
+          }
+          applyListOperation(this.items, operation);
+        }
+      }
+
+      for (const key of dirty.indices) {
+        const index = key as number;
+        if (!inserted.has(index)) {
+          accumulator = inverse(accumulator, this.items[index]);
+        }
+        accumulator = this.reducer(accumulator, items[index]);
+        this.items[index] = items[index];
+      }
+      return accumulator;
+    });
+    this.dirty = indexNone;
+    return this.cachedData;
   }
 }
 
@@ -60,19 +574,78 @@ export class List<T> extends DataChannel<T[]> {
    * @returns An automatic list channel that is the result of applying the map
    * function to every element of the list
    */
-  map<U>(fn: (item: T) => U) {
-    return new AutomaticChannel(
-      // Derived from only this channel
-      [this as Channel<T[]>],
-      // The mapping function is straightforward
-      (list: T[]) => list.map((item) => fn(item)),
-      // The channel connector is a one-to-one mapping
-      [(index) => index],
-      // The update index function
-      (items, data, i) => {
-        data[i as number] = fn(items[0][i as number]);
-      }
-    );
+  map<U>(fn: (item: T) => U): AutomaticList<U, [Channel<T[]>]> {
+    return mapList(this, fn);
+  }
+
+  /**
+   * Filters the list. Changing an item only updates the filtered list where
+   * the item is, and the predicate is only run again for items that change.
+   * @param predicate A function that returns whether to keep an item
+   * @returns An automatic list channel with the items that pass the predicate
+   */
+  filter(predicate: (item: T) => boolean): AutomaticList<T, [Channel<T[]>]> {
+    return filterList(this, predicate);
+  }
+
+  /**
+   * Sorts the list (stably). Changing an item moves just that item in the
+   * sorted list.
+   * @param compare A function that returns a negative number if the first item
+   * comes first, a positive number if the second item does, or zero if they
+   * are equal
+   * @returns An automatic list channel with the items in sorted order
+   */
+  sort(
+    compare: (item1: T, item2: T) => number
+  ): AutomaticList<T, [Channel<T[]>]> {
+    return sortList(this, compare);
+  }
+
+  /**
+   * Slices the list, mirroring `Array.prototype.slice`
+   * @param start The index to start the slice at (inclusive)
+   * @param end The index to end the slice at (exclusive)
+   * @returns An automatic list channel with the items in the slice
+   */
+  slice(start?: number, end?: number): AutomaticList<T, [Channel<T[]>]> {
+    return sliceList(this, start, end);
+  }
+
+  /**
+   * Maps each item of the list to a list of items and flattens the results.
+   * The function is only run again for items that change.
+   * @param fn A function that returns a list of items for an item
+   * @returns An automatic list channel with all the resulting items in order
+   */
+  flatMap<U>(fn: (item: T) => U[]): AutomaticList<U, [Channel<T[]>]> {
+    return flatMapList(this, fn);
+  }
+
+  /**
+   * Concatenates other lists onto the end of this list. Changes to any of the
+   * lists are shifted to where that list's items are in the result.
+   * @param lists The lists to concatenate
+   * @returns An automatic list channel with the items of all the lists
+   */
+  concat(...lists: Channel<T[]>[]): AutomaticList<T, Channel<T[]>[]> {
+    return concatLists([this, ...lists]);
+  }
+
+  /**
+   * Reduces the list to a single value (see {@link Reduce})
+   * @param reducer Adds an item's contribution to the accumulated value
+   * @param initialValue The value of an empty list
+   * @param inverse Undoes an item's contribution to the accumulated value, so
+   * changes can be applied as deltas
+   * @returns An automatic channel with the reduced value
+   */
+  reduce<U>(
+    reducer: (accumulator: U, item: T) => U,
+    initialValue: U,
+    inverse?: (accumulator: U, item: T) => U
+  ): Reduce<T, U> {
+    return new Reduce<T, U>(this, reducer, initialValue, inverse);
   }
 
   /**
@@ -80,31 +653,108 @@ export class List<T> extends DataChannel<T[]> {
    * @param newData The data to push on the end of the list
    */
   push(newData: T) {
-    this._data.push(newData);
-
-    // Notify any downstream channels that are connected
-    for (const { channel, connector } of this.connectedChannels) {
-      // Mark the channel as dirty
-      channel.markDirty(connector(indices([this._data.length - 1])));
-    }
+    this.insert(this._data.length, newData);
   }
 
   /**
-   * Inserts the specified data into the list
+   * Inserts the specified data into the list. Downstream channels are notified
+   * of the structural insertion, so items after the insertion point do not
+   * need to be recalculated
    * @param index The index at which to insert the data before (use the list's
    * length to insert at end)
    * @param newData The data to insert into the list
    */
   insert(index: Key, newData: T) {
-    this._data.splice(index as number, 0, newData);
+    this.splice(index, 0, newData);
+  }
 
-    // Notify any downstream channels that are connected
-    for (const { channel, connector } of this.connectedChannels) {
-      // Mark the channel as dirty
-      channel.markDirty(
-        connector(indices(range(index as number, this._data.length)))
-      );
-    }
+  /**
+   * Removes and/or inserts items in the list in place, mirroring
+   * `Array.prototype.splice`. Replaced items are marked dirty, and any
+   * difference in length is described to downstream channels as structural
+   * deletions or insertions.
+   * @param start The index at which to start changing the list. As with
+   * arrays, a negative index counts back from the end of the list, and an index
+   * past the end is the end.
+   * @param deleteCount The number of items to remove
+   * @param newData Items to insert at the start position
+   * @returns The removed items
+   */
+  splice(start: Key, deleteCount: number, ...newData: T[]): T[] {
+    // Normalize the start and delete count as Array.prototype.splice does, so
+    // the operations describe the positions that actually changed
+    const length = this._data.length;
+    const index = Math.trunc(start as number) || 0;
+    start = index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+    deleteCount = Math.min(
+      Math.max(Math.trunc(deleteCount) || 0, 0),
+      length - start
+    );
+    const removed = this._data.splice(start, deleteCount, ...newData);
+
+    // Items that were replaced in place do not change the list's structure
+    const replaced = Math.min(removed.length, newData.length);
+    const position = start + replaced;
+    const operations: ListOperation[] = [];
+    const run = (operation: "Insert" | "Delete", count: number) => {
+      // Extra removed items are deleted together, as are extra new items
+      // inserted (a single item needs no count)
+      if (count === 1) {
+        operations.push({ operation, index: position });
+      } else if (count > 1) {
+        operations.push({ operation, index: position, count });
+      }
+    };
+    run("Delete", removed.length - replaced);
+    run("Insert", newData.length - replaced);
+
+    // Notify any downstream channels and subscribers that are connected
+    this.propagate(
+      changes(operations, KeySet.range(start, start + newData.length))
+    );
+
+    return removed;
+  }
+
+  /**
+   * Removes the item at the specified index from the list
+   * @param index The index of the item to remove
+   * @returns The removed item
+   */
+  remove(index: Key): T | undefined {
+    return this.splice(index, 1)[0];
+  }
+
+  /**
+   * Removes the last item from the list
+   * @returns The removed item, or undefined if the list is empty
+   */
+  pop(): T | undefined {
+    return this.splice(Math.max(this._data.length - 1, 0), 1)[0];
+  }
+
+  /**
+   * Moves an item in the list to a new position. Downstream channels are
+   * notified of the move so the item does not need to be recalculated
+   * @param from The current index of the item. As with `splice`, a negative
+   * index counts back from the end of the list.
+   * @param to The index the item should have after it is moved, which may also
+   * be negative. Nothing is moved if either index is out of range.
+   */
+  move(from: Key, to: Key) {
+    const length = this._data.length;
+    const normalize = (index: Key) => {
+      const normalized = Math.trunc(index as number) || 0;
+      return normalized < 0 ? length + normalized : normalized;
+    };
+    from = normalize(from);
+    to = normalize(to);
+    if (from < 0 || from >= length || to < 0 || to >= length) return;
+
+    this._data.splice(to, 0, ...this._data.splice(from, 1));
+
+    // Notify any downstream channels and subscribers that are connected
+    this.propagate(changes([{ operation: "Move", from, to }], []));
   }
 
   /**
@@ -118,14 +768,91 @@ export class List<T> extends DataChannel<T[]> {
     // Update the underlying data
     this._data[index as number] = subData;
 
-    // Notify any downstream channels that are connected
-    for (const { channel, connector } of this.connectedChannels) {
-      // Mark the channel as dirty
-      channel.markDirty(connector(indices([index])));
-    }
+    // Notify any downstream channels and subscribers that are connected
+    this.propagate(indices([index]));
+  }
+
+  /**
+   * Sets data deep inside the list, such as a field of one of its items. Only
+   * the path changed is marked dirty, so downstream channels that only depend
+   * on other parts of the item are not updated.
+   * @param path The keys leading to the data, starting with the item's index
+   * @param subData The data to set
+   * @throws {MissingPathError} If the data the path leads through does not
+   * exist
+   */
+  setPath(path: Key[], subData: any) {
+    setPath(this._data, path, subData);
+    this.propagate(pathIndex(path));
   }
 }
 
+/**
+ * Creates a list channel with an item for each entry of a dictionary, in the
+ * order of `Object.keys`. Changing a value only updates its item. When keys are
+ * added or removed, the connector matches the new keys to the previous ones so
+ * downstream channels are notified of just the items inserted and deleted.
+ * @param dictionary The incoming dictionary
+ * @param item Creates the item of an entry
+ * @returns The list channel
+ */
+function entryList<Value, U>(
+  dictionary: Channel<Record<Key, Value>>,
+  item: (key: string, value: Value) => U
+): AutomaticList<U, [Channel<Record<Key, Value>>]> {
+  // The keys of the items, or null if the items need to be created from
+  // scratch
+  let keys: string[] | null = null;
+  // The position of each key's item
+  let positions = new Map<Key, number>();
+  const setKeys = (nextKeys: string[]) => {
+    keys = nextKeys;
+    positions = new Map(nextKeys.map((key, i) => [key, i]));
+  };
+
+  return new AutomaticList(
+    [dictionary],
+    (data) => {
+      setKeys(Object.keys(data));
+      return keys!.map((key) => item(key, data[key]));
+    },
+    [
+      (indexSpecifier) => {
+        if (indexSpecifier.indexType === "None") return indexNone;
+        if (keys == null || indexSpecifier.indexType !== "Indices") {
+          // Everything is created from scratch once the data is next read
+          keys = null;
+          return indexAll;
+        }
+
+        let operations: ListOperation[] = [];
+        const dirty = new KeySet();
+        if (indexSpecifier.added != null || indexSpecifier.removed != null) {
+          // Match the new keys to the previous ones
+          const nextKeys = Object.keys(dictionary.data);
+          const keyed = keyedChanges(keys, nextKeys);
+          operations = keyed.operations;
+          dirty.addAll(keyed.indices);
+          setKeys(nextKeys);
+        }
+        for (const key of indexSpecifier.indices) {
+          // Object.keys lists number keys as strings and leaves out symbols
+          const position = positions.get(
+            typeof key === "number" ? `${key}` : key
+          );
+          if (position != null) dirty.add(position);
+        }
+        return normalizeIndexSpecifier(changes(operations, dirty));
+      },
+    ],
+    (data, items, i) => {
+      const key = keys![i as number];
+      items[i as number] = item(key, data[0][key]);
+    },
+    (_, items, operation) => applyListOperation(items, operation)
+  );
+}
+
 /**
  * Dictionary channel
  */
@@ -138,74 +865,349 @@ export class Dictionary<Value> extends DataChannel<Record<Key, Value>> {
    * @param subData The item to set
    */
   setItem(index: Key, subData: Value) {
+    const added = !this.has(index);
     // Update the underlying data
     this._data[index] = subData;
 
-    // Notify any downstream channels that are connected
-    for (const { channel, connector } of this.connectedChannels) {
-      // Mark the channel as dirty
-      channel.markDirty(connector(indices([index])));
-    }
+    // Notify any downstream channels and subscribers that are connected
+    this.propagate(added ? dictionaryChanges([index], []) : indices([index]));
+  }
+
+  /**
+   * Removes a key from the dictionary
+   * @param index The key to remove
+   * @returns Whether the key was in the dictionary
+   */
+  delete(index: Key): boolean {
+    if (!this.has(index)) return false;
+    delete this._data[index];
+
+    // Notify any downstream channels and subscribers that are connected
+    this.propagate(dictionaryChanges([], [index]));
+    return true;
   }
 
   /**
-   * @returns An automatic channel with the keys of the dictionary
+   * Returns whether the dictionary has a key
+   * @param index The key
+   * @returns Whether the key is in the dictionary
+   */
+  has(index: Key): boolean {
+    return Object.hasOwn(this._data, index);
+  }
+
+  /**
+   * Sets data deep inside the dictionary, such as an item of one of its lists.
+   * Only the path changed is marked dirty, so downstream channels that only
+   * depend on other parts of the value are not updated. A path of just a new
+   * key adds the key, as with `setItem`.
+   * @param path The keys leading to the data, starting with the value's key
+   * @param subData The data to set
+   * @throws {MissingPathError} If the data the path leads through does not
+   * exist
+   */
+  setPath(path: Key[], subData: any) {
+    const added = !this.has(path[0]);
+    setPath(this._data, path, subData);
+    this.propagate(added ? dictionaryChanges([path[0]], []) : pathIndex(path));
+  }
+
+  /**
+   * @returns An automatic list channel with the keys of the dictionary, which
+   * is updated incrementally as keys are added and removed
    */
   keys() {
-    return new AutomaticChannel(
-      [this as Channel<Record<Key, Value>>],
-      (dictionary: Record<Key, Value>) => Object.keys(dictionary)
-    );
+    return entryList(this, (key) => key);
   }
 
   /**
-   * @returns An automatic channel with the values of the dictionary
+   * @returns An automatic list channel with the values of the dictionary, in
+   * which changing a value only updates its item
    */
   values() {
-    return new AutomaticChannel(
-      [this as Channel<Record<Key, Value>>],
-      (dictionary: Record<Key, Value>) => Object.values(dictionary)
-    );
+    return entryList(this, (_, value: Value) => value);
   }
 
   /**
-   * @returns An automatic channel with the entries of the dictionary
+   * @returns An automatic list channel with the entries of the dictionary, in
+   * which changing a value only updates its entry
    */
   entries() {
-    return new AutomaticChannel(
-      [this as Channel<Record<Key, Value>>],
-      (dictionary: Record<Key, Value>) => Object.entries(dictionary)
-    );
+    return entryList(this, (key, value: Value): [string, Value] => [
+      key,
+      value,
+    ]);
   }
 
   /**
-   * Applies a map function to the list
-   * @param fn A function to apply to every element of the list
-   * @returns An automatic list channel that is the result of applying the map
-   * function to every element of the list
+   * Applies a map function to the dictionary. Changed values are mapped again,
+   * and removed keys are removed from the mapped dictionary.
+   * @param fn A function to apply to every value of the dictionary
+   * @returns An automatic dictionary channel that is the result of applying the
+   * map function to every value of the dictionary
    */
   map<U>(fn: (value: Value) => U) {
+    // Keys removed since the mapped dictionary was last updated
+    const removed = new Set<Key>();
+
     return new AutomaticChannel(
       // Derived from only this channel
       [this as Channel<Record<Key, Value>>],
       // The mapping function is straightforward
-      (dictionary: Record<Key, Value>) =>
-        Object.fromEntries(
-          Object.entries(dictionary).map<[Key, U]>(([key, item]) => [
-            key,
-            fn(item),
-          ])
-        ),
+      (dictionary: Record<Key, Value>) => {
+        removed.clear();
+        return recordMap(dictionary, fn);
+      },
       // The channel connector is a one-to-one mapping
-      [(index) => index],
+      [
+        (index) => {
+          if (index.indexType !== "Indices") return index;
+          for (const key of index.added ?? []) {
+            // A key that is added back goes to the end of the keys, so the
+            // mapped dictionary is rebuilt to keep its keys in the same order
+            if (removed.has(key)) return indexAll;
+          }
+          for (const key of index.removed ?? []) removed.add(key);
+          return index;
+        },
+      ],
       // The update index function
       (items, data, i) => {
-        data[i as string] = fn(items[0][i]);
+        removed.delete(i);
+        if (Object.hasOwn(items[0], i)) {
+          data[i] = fn(items[0][i]);
+        } else {
+          delete data[i];
+        }
       }
     );
   }
 }
 
+/**
+ * The base class for channels that pass on another channel's changes some time
+ * after they happen. Until a change is passed on, the channel keeps its previous
+ * data: each change passes on a copy of the incoming data as of that change
+ * (a shallow copy, so changes made inside items or values show through right
+ * away). The channel stays lazy downstream: changes are passed on by marking
+ * downstream channels dirty.
+ */
+export abstract class TimedChannel<T> extends AutomaticChannel<
+  T,
+  [Channel<T>]
+> {
+  // The timeouts that have yet to run
+  protected timeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  // The data as of the last change that was passed on
+  protected released: { data: T };
+
+  /**
+   * @param channel The channel whose changes to pass on
+   * @param ms The time in milliseconds that the channel waits for
+   */
+  constructor(channel: Channel<T>, readonly ms: number) {
+    const released = { data: shallowCopy(channel.data) };
+    super(
+      [channel],
+      () => released.data,
+      // Changes are passed on as is
+      [(index) => index]
+    );
+    this.released = released;
+  }
+
+  /**
+   * Schedules a change of the incoming channel to be passed on, rather than
+   * marking the channel dirty right away
+   */
+  markDirty(indexSpecifier: IndexSpecifier = indexAll) {
+    this.schedule(indexSpecifier);
+  }
+
+  // Decide when to pass on a change of the incoming channel
+  protected abstract schedule(indexSpecifier: IndexSpecifier): void;
+
+  // Pass on a change along with the data as of the change (by default, the
+  // current incoming data), marking the channel and everything downstream dirty
+  protected release(
+    indexSpecifier: IndexSpecifier,
+    data: T = shallowCopy(this.incomingChannels[0].data)
+  ) {
+    this.released.data = data;
+    super.markDirty(indexSpecifier);
+  }
+
+  // Run a function once the channel's time has passed
+  protected after(fn: () => void): ReturnType<typeof setTimeout> {
+    const timeout = setTimeout(() => {
+      this.timeouts.delete(timeout);
+      fn();
+    }, this.ms);
+    this.timeouts.add(timeout);
+    return timeout;
+  }
+
+  /**
+   * Disposes the channel, dropping any changes that have yet to be passed on
+   */
+  dispose() {
+    for (const timeout of this.timeouts) {
+      clearTimeout(timeout);
+    }
+    this.timeouts.clear();
+    super.dispose();
+  }
+}
+
+/**
+ * Passes on another channel's changes once it has stopped changing for a time.
+ * Useful for waiting until the user has stopped typing.
+ */
+export class Debounce<T> extends TimedChannel<T> {
+  // The changes that have yet to be passed on
+  protected pending: IndexSpecifier = indexNone;
+
+  // The timeout that passes on the pending changes
+  protected timeout: ReturnType<typeof setTimeout> | null = null;
+
+  protected schedule(indexSpecifier: IndexSpecifier) {
+    this.pending = mergeIndexSpecifiersInto(this.pending, indexSpecifier);
+
+    // Restart the wait
+    if (this.timeout != null) {
+      clearTimeout(this.timeout);
+      this.timeouts.delete(this.timeout);
+    }
+    this.timeout = this.after(() => {
+      const pending = this.pending;
+      this.pending = indexNone;
+      this.timeout = null;
+      this.release(pending);
+    });
+  }
+}
+
+/**
+ * Passes on another channel's changes at most once per time period. The first
+ * change is passed on right away, and any changes during the following period
+ * are passed on together at its end.
+ */
+export class Throttle<T> extends TimedChannel<T> {
+  // The changes that have yet to be passed on
+  protected pending: IndexSpecifier = indexNone;
+
+  // Whether a period is running, during which changes are held back
+  protected throttling = false;
+
+  protected schedule(indexSpecifier: IndexSpecifier) {
+    if (this.throttling) {
+      this.pending = mergeIndexSpecifiersInto(this.pending, indexSpecifier);
+    } else {
+      this.release(indexSpecifier);
+      this.startPeriod();
+    }
+  }
+
+  // Hold back changes until the end of the period, then pass them on (which
+  // starts another period)
+  protected startPeriod() {
+    this.throttling = true;
+    this.after(() => {
+      this.throttling = false;
+      if (!indexEmpty(this.pending)) {
+        const pending = this.pending;
+        this.pending = indexNone;
+        this.release(pending);
+        this.startPeriod();
+      }
+    });
+  }
+}
+
+/**
+ * Passes on each of another channel's changes a time after it happens. The
+ * incoming data is copied as each change happens, so the data passed on with a
+ * change does not include the changes after it.
+ */
+export class Delay<T> extends TimedChannel<T> {
+  protected schedule(indexSpecifier: IndexSpecifier) {
+    const data = shallowCopy(this.incomingChannels[0].data);
+    this.after(() => this.release(indexSpecifier, data));
+  }
+}
+
+/**
+ * A channel that counts up from zero, once per interval, until it is disposed
+ */
+export class Interval extends DataChannel<number> {
+  protected interval: ReturnType<typeof setInterval>;
+
+  /**
+   * @param ms The interval in milliseconds
+   */
+  constructor(readonly ms: number) {
+    super(0);
+    this.interval = setInterval(() => {
+      this.data = this.data + 1;
+    }, ms);
+  }
+
+  /**
+   * Disposes the channel, stopping the count
+   */
+  dispose() {
+    clearInterval(this.interval);
+    super.dispose();
+  }
+}
+
+/**
+ * A channel that is false until a time has passed, after which it is true
+ */
+export class Timer extends DataChannel<boolean> {
+  protected timeout: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param ms The time in milliseconds
+   */
+  constructor(readonly ms: number) {
+    super(false);
+    this.timeout = setTimeout(() => {
+      this.data = true;
+    }, ms);
+  }
+
+  /**
+   * Disposes the channel, stopping the timer
+   */
+  dispose() {
+    clearTimeout(this.timeout);
+    super.dispose();
+  }
+}
+
+/**
+ * Selects the data at a path inside another channel's data. The selection is
+ * only marked dirty when something at or inside the path changes, and what
+ * changed is passed on relative to the selected data. For instance, selecting
+ * a list inside a dictionary gives a channel with the same fine-grained updates
+ * as a flat list.
+ * @param channel The channel to select from
+ * @param path The keys leading to the data, outermost first
+ * @returns An automatic channel with the selected data
+ */
+export function select<T>(channel: Channel<any>, path: Key[]) {
+  return new AutomaticChannel<T, [Channel<any>]>(
+    [channel],
+    (data) => getPath(data, path),
+    // Only pass on changes inside the path
+    [(index) => narrowIndex(index, path)],
+    // The selected data is updated in place, so there is nothing to update
+    () => {}
+  );
+}
+
 /**
  * The fully unraveled data type for a channel. If the channel's data type
  * includes other channels, these are in turn unraveled recursively.
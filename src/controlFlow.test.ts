@@ -0,0 +1,128 @@
+import { DataChannel } from "./channel";
+import { List, String } from "./channelFn";
+import { For, Show, Switch } from "./controlFlow";
+import { Element, Fragment } from "./dom";
+import { MemoryElement, memoryRenderer } from "./memoryRenderer";
+
+/**
+ * Creates an element with the specified text
+ */
+function text(tag: string, text: string) {
+  return new Element(tag, new List([new Fragment(new String(text))]));
+}
+
+/**
+ * Mounts an element into a new in-memory root element and returns its node
+ */
+function mount(element: Element): MemoryElement {
+  const root = new MemoryElement("body");
+  element.mount(root, null, memoryRenderer);
+  return root.children[0] as MemoryElement;
+}
+
+describe("show", () => {
+  test("mounts and unmounts", () => {
+    const when = new DataChannel(false);
+    const render = jest.fn(() => text("b", "shown"));
+    const div = mount(
+      new Element("div", new Show(when, render, () => text("i", "hidden")))
+    );
+    expect(div.toHTML()).toEqual("<div><i>hidden</i></div>");
+
+    when.data = true;
+    expect(div.toHTML()).toEqual("<div><b>shown</b></div>");
+    const node = div.children[0];
+
+    // Setting the same condition keeps the rendered branch
+    when.data = true;
+    expect(div.children[0]).toBe(node);
+    expect(render).toHaveBeenCalledTimes(1);
+
+    when.data = false;
+    expect(div.toHTML()).toEqual("<div><i>hidden</i></div>");
+  });
+
+  test("hidden children are disposed", () => {
+    const when = new DataChannel(true);
+    const label = new String("a");
+    const div = mount(
+      new Element("div", new Show(when, () => new Fragment(label)))
+    );
+    expect(label.connectedChannels).toHaveLength(1);
+
+    when.data = false;
+    expect(div.toHTML()).toEqual("<div></div>");
+    expect(label.connectedChannels).toHaveLength(0);
+  });
+});
+
+test("switch", () => {
+  const tab = new String("home");
+  const div = mount(
+    new Element(
+      "div",
+      new Switch(
+        tab,
+        {
+          home: () => text("p", "Home"),
+          about: () => [text("h1", "About"), text("p", "Us")],
+        },
+        () => text("p", "Not found")
+      )
+    )
+  );
+  expect(div.toHTML()).toEqual("<div><p>Home</p></div>");
+
+  tab.data = "about";
+  expect(div.toHTML()).toEqual("<div><h1>About</h1><p>Us</p></div>");
+
+  tab.data = "missing";
+  const node = div.children[0];
+  expect(div.toHTML()).toEqual("<div><p>Not found</p></div>");
+
+  // Values without a case share the fallback
+  tab.data = "also missing";
+  expect(div.children[0]).toBe(node);
+});
+
+test("for", () => {
+  const list = new List(["a", "b", "c"]);
+  const render = jest.fn((item: string) => text("li", item));
+  const ul = mount(new Element("ul", new For(list, render)));
+  expect(ul.toHTML()).toEqual("<ul><li>a</li><li>b</li><li>c</li></ul>");
+  const [a, b, c] = ul.children;
+
+  // Only changed rows are rendered
+  render.mockClear();
+  list.setItem(1, "B");
+  list.insert(0, "z");
+  list.move(3, 1);
+  expect(ul.toHTML()).toEqual(
+    "<ul><li>z</li><li>c</li><li>a</li><li>B</li></ul>"
+  );
+  expect(render).toHaveBeenCalledTimes(2);
+  expect(ul.children[1]).toBe(c);
+  expect(ul.children[2]).toBe(a);
+  expect(ul.children).not.toContain(b);
+});
+
+test("removed rows are disposed", () => {
+  const labels = ["a", "b", "c"].map((label) => new String(label));
+  const list = new List([...labels]);
+  mount(
+    new Element(
+      "ul",
+      new For(
+        list,
+        (label) => new Element("li", new List([new Fragment(label)]))
+      )
+    )
+  );
+  expect(labels[0].connectedChannels).toHaveLength(1);
+
+  list.remove(0);
+  list.setItem(0, new String("B"));
+  expect(labels[0].connectedChannels).toHaveLength(0);
+  expect(labels[1].connectedChannels).toHaveLength(0);
+  expect(labels[2].connectedChannels).toHaveLength(1);
+});
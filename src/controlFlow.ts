@@ -0,0 +1,179 @@
+/**
+ * This file provides control flow channels for conditional and list rendering
+ *
+ * Each control flow channel is a channel of DOM channels, so it can be used
+ * directly as an element's children (or interpolated as a JSX child). Branches
+ * are passed as render functions rather than DOM channels, since control flow
+ * channels own the children they render: children that are no longer shown are
+ * disposed once the element unmounts them, and a branch that is hidden and
+ * shown again is rendered anew.
+ */
+
+import { AutomaticChannel, Channel } from "./channel";
+import { Element, Fragment } from "./dom";
+import { applyListOperation, Key } from "./indexSpecifier";
+
+/**
+ * What a render function returns: a single DOM channel or several
+ */
+export type Children = Element | Fragment | (Element | Fragment)[];
+
+/**
+ * A function that renders a branch
+ */
+export type Render = () => Children;
+
+/**
+ * Renders nothing
+ */
+const renderNothing: Render = () => [];
+
+/**
+ * The branch of a switch that shows the fallback
+ */
+const fallbackBranch = Symbol("fallback");
+
+/**
+ * Renders the branch a value selects, rendering a branch only when the selected
+ * branch changes. Changes to the value that select the same branch leave the
+ * rendered children alone.
+ */
+abstract class Branch<T> extends AutomaticChannel<
+  (Element | Fragment)[],
+  [Channel<T>]
+> {
+  // Whether a branch has been rendered yet
+  protected rendered = false;
+
+  // The branch that is rendered
+  protected branch: unknown;
+
+  // The rendered children of the branch
+  protected children: (Element | Fragment)[] = [];
+
+  constructor(
+    value: Channel<T>,
+    select: (value: T) => { branch: unknown; render: Render }
+  ) {
+    super([value], (value) => {
+      const { branch, render } = select(value);
+      if (!this.rendered || branch !== this.branch) {
+        for (const child of this.children) {
+          child.disposeWhenUnmounted();
+        }
+        this.rendered = true;
+        this.branch = branch;
+        const children = render();
+        this.children = Array.isArray(children) ? children : [children];
+      }
+      return this.children;
+    });
+  }
+
+  // Dispose the rendered children along with the channel
+  dispose() {
+    super.dispose();
+    for (const child of this.children) {
+      child.disposeWhenUnmounted();
+    }
+    this.children = [];
+  }
+}
+
+/**
+ * Shows a branch while a condition is true, and an optional fallback while it
+ * is false
+ */
+export class Show extends Branch<boolean> {
+  /**
+   * @param when The condition
+   * @param render Renders the children to show while the condition is true
+   * @param fallback Renders the children to show while the condition is false
+   */
+  constructor(
+    when: Channel<boolean>,
+    render: Render,
+    fallback: Render = renderNothing
+  ) {
+    super(when, (when) => ({
+      branch: when,
+      render: when ? render : fallback,
+    }));
+  }
+}
+
+/**
+ * Shows one of several branches depending on a value
+ */
+export class Switch<T extends Key> extends Branch<T> {
+  /**
+   * @param value The value that selects the branch
+   * @param cases Renders the children of each branch, keyed by the value that
+   * selects it
+   * @param fallback Renders the children to show when no case matches
+   */
+  constructor(
+    value: Channel<T>,
+    cases: Partial<Record<T, Render>>,
+    fallback: Render = renderNothing
+  ) {
+    super(value, (value) => {
+      const render = cases[value];
+      // All values without a case share the fallback branch
+      return render == null
+        ? { branch: fallbackBranch, render: fallback }
+        : { branch: value, render };
+    });
+  }
+}
+
+/**
+ * Renders each item of a list. Updates are incremental through the same
+ * connector and update functions as `List.map`: changing an item rerenders just
+ * its row, and inserting, removing and moving items keeps the rows of the other
+ * items. Rows that are replaced or removed are disposed once they are unmounted.
+ */
+export class For<T> extends AutomaticChannel<
+  (Element | Fragment)[],
+  [Channel<T[]>]
+> {
+  /**
+   * @param each The list
+   * @param render Renders the row of an item
+   */
+  constructor(each: Channel<T[]>, render: (item: T) => Element | Fragment) {
+    super(
+      [each],
+      (items) => {
+        for (const row of this.cachedData ?? []) {
+          row.disposeWhenUnmounted();
+        }
+        return items.map((item) => render(item));
+      },
+      // Each row depends on just its item
+      [(index) => index],
+      (items, data, i) => {
+        // Inserted indices have no row yet
+        data[i as number]?.disposeWhenUnmounted();
+        data[i as number] = render(items[0][i as number]);
+      },
+      (_, data, operation) => {
+        if (operation.operation === "Delete") {
+          const end = operation.index + (operation.count ?? 1);
+          for (let i = operation.index; i < end; i++) {
+            data[i].disposeWhenUnmounted();
+          }
+        }
+        applyListOperation(data, operation);
+      }
+    );
+  }
+
+  // Dispose the rendered rows along with the channel
+  dispose() {
+    super.dispose();
+    for (const row of this.cachedData ?? []) {
+      row.disposeWhenUnmounted();
+    }
+  }
+}
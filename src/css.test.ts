@@ -0,0 +1,133 @@
+import { Number, String } from "./channelFn";
+import { Rule, scopeSelector, StyleSheet } from "./css";
+
+/**
+ * A minimal stand-in for a CSSOM style sheet that records its rules
+ */
+class FakeStyleSheet {
+  cssRules: { cssText: string; style: Map<string, string> }[] = [];
+
+  insertRule(text: string, index: number) {
+    // Parse the declarations out of the rule text
+    const style = new Map<string, string>();
+    const body = text.slice(text.indexOf("{") + 1, text.lastIndexOf("}"));
+    for (const declaration of body.split(";")) {
+      const [name, value] = declaration.split(":").map((part) => part.trim());
+      if (name) style.set(name, value);
+    }
+    this.cssRules.splice(index, 0, {
+      cssText: text,
+      style: Object.assign(style, {
+        setProperty: (name: string, value: string) => style.set(name, value),
+        removeProperty: (name: string) => style.delete(name),
+      }),
+    });
+    return index;
+  }
+
+  deleteRule(index: number) {
+    this.cssRules.splice(index, 1);
+  }
+}
+
+test("scope selector", () => {
+  expect(scopeSelector("p", "s")).toEqual(".s p");
+  expect(scopeSelector("p, a:hover", "s")).toEqual(".s p, .s a:hover");
+  expect(scopeSelector(":scope", "s")).toEqual(".s");
+  expect(scopeSelector(":scope > li", "s")).toEqual(".s > li");
+  // Commas nested in pseudo-classes, attributes and strings are left alone
+  expect(scopeSelector("a:is(.x, .y), b", "s")).toEqual(
+    ".s a:is(.x, .y), .s b"
+  );
+  expect(scopeSelector('[title="a,b"], :not([x], [y])', "s")).toEqual(
+    '.s [title="a,b"], .s :not([x], [y])'
+  );
+});
+
+describe("rule", () => {
+  test("text", () => {
+    const color = new String("red");
+    const size = new Number(2);
+    const rule = new Rule("p", {
+      color,
+      "--size": size,
+      display: null,
+    });
+    expect(rule.data).toEqual("p { color: red; --size: 2; }");
+
+    color.data = "blue";
+    expect(rule.data).toEqual("p { color: blue; --size: 2; }");
+  });
+
+  test("scoped text", () => {
+    const rule = new Rule("p", { color: "red" }, "scope");
+    expect(rule.data).toEqual(".scope p { color: red; }");
+  });
+});
+
+describe("style sheet", () => {
+  test("scopes", () => {
+    const styleSheet1 = new StyleSheet();
+    const styleSheet2 = new StyleSheet();
+    expect(styleSheet1.scope).not.toEqual(styleSheet2.scope);
+    expect(new StyleSheet(null).scope).toBeNull();
+  });
+
+  test("text", () => {
+    const styleSheet = new StyleSheet("app");
+    styleSheet.rule(":scope", { margin: 0 });
+    styleSheet.rule("p", { color: "red" });
+    expect(styleSheet.text).toEqual(
+      ".app { margin: 0; }\n.app p { color: red; }"
+    );
+  });
+
+  test("mounted declarations update individually", () => {
+    const color = new String("red");
+    const size = new Number(2);
+    const styleSheet = new StyleSheet("app");
+    styleSheet.rule("p", { color, "--size": size });
+    styleSheet.rule("a", { color: "green" });
+
+    const cssStyleSheet = new FakeStyleSheet();
+    styleSheet.mount(cssStyleSheet as unknown as CSSStyleSheet);
+    expect(cssStyleSheet.cssRules.map((rule) => rule.cssText)).toEqual([
+      ".app p { color: red; --size: 2; }",
+      ".app a { color: green; }",
+    ]);
+    const [pRule, aRule] = cssStyleSheet.cssRules;
+
+    // Changing a declaration updates only that property in place
+    color.data = "blue";
+    size.data = 3;
+    expect(cssStyleSheet.cssRules[0]).toBe(pRule);
+    expect(pRule.style.get("color")).toEqual("blue");
+    expect(pRule.style.get("--size")).toEqual("3");
+    expect(aRule.style.get("color")).toEqual("green");
+
+    // Unmounting removes the rules and stops updates
+    styleSheet.unmount();
+    expect(cssStyleSheet.cssRules).toHaveLength(0);
+    color.data = "black";
+    expect(pRule.style.get("color")).toEqual("blue");
+  });
+
+  test("mounted selectors replace the rule", () => {
+    const selector = new String("p");
+    const styleSheet = new StyleSheet(null);
+    styleSheet.rule("a", { color: "green" });
+    styleSheet.rule(selector, { color: "red" });
+    const cssStyleSheet = new FakeStyleSheet();
+    styleSheet.mount(cssStyleSheet as unknown as CSSStyleSheet);
+
+    selector.data = "span";
+    expect(cssStyleSheet.cssRules.map((rule) => rule.cssText)).toEqual([
+      "a { color: green; }",
+      "span { color: red; }",
+    ]);
+
+    // Rules added after mounting are mounted right away
+    styleSheet.rule("b", { "font-weight": "bold" });
+    expect(cssStyleSheet.cssRules).toHaveLength(3);
+  });
+});
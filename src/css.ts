@@ -0,0 +1,294 @@
+/**
+ * This file provides reactive CSS through style sheet and rule channels
+ *
+ * A rule is a channel whose data is its CSS text. Its selector and each of its
+ * declarations can be bound to channels. Once a style sheet is mounted into the
+ * CSSOM, changing a declaration's channel updates just that property of the
+ * mounted rule, and changing a selector's channel replaces just that rule.
+ * Style sheets are scoped by default, so their rules only apply inside
+ * elements that have the style sheet's scope class.
+ */
+
+import { AutomaticChannel, Channel, DataChannel } from "./channel";
+import { MaybeChannel } from "./dom";
+
+/**
+ * The value of a CSS declaration. Numbers are written as is (without units),
+ * and declarations that are null are left out.
+ */
+export type DeclarationValue = string | number | null;
+
+/**
+ * Formats a declaration value for CSS
+ * @param value The declaration value
+ * @returns The value as CSS text, or null if the declaration is left out
+ */
+function formatValue(value: DeclarationValue): string | null {
+  return value == null ? null : `${value}`;
+}
+
+/**
+ * Converts a value that may be stored in a channel into a channel
+ * @param value A static value or a channel
+ * @returns The channel, or a new data channel storing the static value
+ */
+function toChannel<T>(value: MaybeChannel<T>): Channel<T> {
+  return value instanceof Channel ? value : new DataChannel(value);
+}
+
+/**
+ * Splits a selector list into its selectors, at the commas that are not nested
+ * inside parentheses, brackets or quotes (such as those in `:is(.a, .b)`)
+ * @param selector A comma-separated list of selectors
+ * @returns The selectors
+ */
+function splitSelectorList(selector: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote != null) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(selector.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selector.slice(start));
+  return parts;
+}
+
+/**
+ * Scopes a selector so it only matches inside elements with the scope class.
+ * The `:scope` pseudo-class refers to the scoped element itself.
+ * @param selector A selector, possibly a comma-separated list of selectors
+ * @param scope The scope class
+ * @returns The scoped selector
+ */
+export function scopeSelector(selector: string, scope: string): string {
+  return splitSelectorList(selector)
+    .map((part) => part.trim())
+    .map((part) =>
+      part.includes(":scope")
+        ? part.replace(/:scope/g, `.${scope}`)
+        : `.${scope} ${part}`
+    )
+    .join(", ");
+}
+
+/**
+ * A CSS rule whose selector and declarations can be bound to channels. Its
+ * data is the rule's CSS text.
+ */
+export class Rule extends AutomaticChannel<string, Channel<any>[]> {
+  /**
+   * The rule in the CSSOM that the rule is mounted on, or null if it is
+   * unmounted
+   */
+  public cssRule: CSSStyleRule | null = null;
+
+  // The style sheet in the CSSOM that the rule is mounted in
+  protected cssStyleSheet: CSSStyleSheet | null = null;
+
+  // Functions to unsubscribe from the selector and declaration channels
+  protected unsubscribers: (() => void)[] = [];
+
+  /**
+   * @param selector The rule's selector
+   * @param declarations The rule's declarations, keyed by property name (custom
+   * properties such as `--size` are supported)
+   * @param scope An optional scope class to scope the selector with
+   */
+  constructor(
+    selector: MaybeChannel<string>,
+    readonly declarations: Record<string, MaybeChannel<DeclarationValue>>,
+    readonly scope: string | null = null
+  ) {
+    super(
+      [
+        toChannel(selector),
+        ...Object.values(declarations).map((value) => toChannel(value)),
+      ],
+      (selector, ...values) => {
+        const body = Object.keys(declarations)
+          .map((name, i) => [name, formatValue(values[i])])
+          .filter(([, value]) => value != null)
+          .map(([name, value]) => `${name}: ${value};`)
+          .join(" ");
+        return `${this.formatSelector(selector)} { ${body} }`;
+      }
+    );
+  }
+
+  // Apply the scope to a selector, if the rule is scoped
+  protected formatSelector(selector: string): string {
+    return this.scope == null ? selector : scopeSelector(selector, this.scope);
+  }
+
+  /**
+   * Inserts the rule into a style sheet in the CSSOM and keeps it updated
+   * @param cssStyleSheet The style sheet to insert into
+   * @param index The position to insert the rule at
+   */
+  mount(cssStyleSheet: CSSStyleSheet, index: number) {
+    this.cssStyleSheet = cssStyleSheet;
+    cssStyleSheet.insertRule(this.data, index);
+    this.cssRule = cssStyleSheet.cssRules[index] as CSSStyleRule;
+
+    // Replace the whole rule when its selector changes
+    const [selector, ...values] = this.incomingChannels;
+    this.unsubscribers.push(selector.subscribe(() => this.replace()));
+
+    // Update just the affected property when a declaration changes
+    Object.keys(this.declarations).forEach((name, i) => {
+      this.unsubscribers.push(
+        values[i].subscribe((value: DeclarationValue) => {
+          const formatted = formatValue(value);
+          if (this.cssRule == null) return;
+          if (formatted == null) {
+            this.cssRule.style.removeProperty(name);
+          } else {
+            this.cssRule.style.setProperty(name, formatted);
+          }
+        })
+      );
+    });
+  }
+
+  // Replace the mounted rule with a newly inserted one in the same position
+  protected replace() {
+    if (this.cssStyleSheet == null || this.cssRule == null) return;
+    const index = Array.prototype.indexOf.call(
+      this.cssStyleSheet.cssRules,
+      this.cssRule
+    );
+    this.cssStyleSheet.deleteRule(index);
+    this.cssStyleSheet.insertRule(this.data, index);
+    this.cssRule = this.cssStyleSheet.cssRules[index] as CSSStyleRule;
+  }
+
+  /**
+   * Removes the rule from the CSSOM and stops updating it
+   */
+  unmount() {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+
+    if (this.cssStyleSheet != null && this.cssRule != null) {
+      const index = Array.prototype.indexOf.call(
+        this.cssStyleSheet.cssRules,
+        this.cssRule
+      );
+      if (index !== -1) {
+        this.cssStyleSheet.deleteRule(index);
+      }
+    }
+    this.cssStyleSheet = null;
+    this.cssRule = null;
+  }
+
+  // Unmount and dispose the rule
+  dispose() {
+    this.unmount();
+    super.dispose();
+  }
+}
+
+/**
+ * How many scope classes have been generated
+ */
+let scopeCount = 0;
+
+/**
+ * A style sheet is a collection of reactive {@link Rule}s. By default, a style
+ * sheet is scoped: its rules only apply inside elements that have its scope
+ * class, e.g. `new Element("div", children, { attributes: { class:
+ * styleSheet.scope } })`.
+ */
+export class StyleSheet {
+  /**
+   * The rules in the style sheet, in order
+   */
+  readonly rules: Rule[] = [];
+
+  /**
+   * The style sheet in the CSSOM that the rules are mounted in, or null if it
+   * is unmounted
+   */
+  public cssStyleSheet: CSSStyleSheet | null = null;
+
+  // The style element created to hold the style sheet when mounting, if any
+  protected styleElement: HTMLStyleElement | null = null;
+
+  /**
+   * @param scope The scope class, or null for a global style sheet. A unique
+   * scope class is generated by default.
+   */
+  constructor(readonly scope: string | null = `poly-${++scopeCount}`) {}
+
+  /**
+   * Adds a rule to the style sheet
+   * @param selector The rule's selector (scoped if the style sheet is)
+   * @param declarations The rule's declarations, keyed by property name
+   * @returns The added rule
+   */
+  rule(
+    selector: MaybeChannel<string>,
+    declarations: Record<string, MaybeChannel<DeclarationValue>>
+  ): Rule {
+    const rule = new Rule(selector, declarations, this.scope);
+    this.rules.push(rule);
+    if (this.cssStyleSheet != null) {
+      // Mount rules added after the style sheet was mounted right away
+      rule.mount(this.cssStyleSheet, this.cssStyleSheet.cssRules.length);
+    }
+    return rule;
+  }
+
+  /**
+   * The style sheet's current CSS text (useful for server-side rendering)
+   */
+  get text(): string {
+    return this.rules.map((rule) => rule.data).join("\n");
+  }
+
+  /**
+   * Mounts the style sheet's rules into the CSSOM
+   * @param cssStyleSheet The style sheet to mount the rules in. By default, a
+   * new style element is added to the document's head.
+   */
+  mount(cssStyleSheet?: CSSStyleSheet) {
+    if (cssStyleSheet == null) {
+      this.styleElement = document.createElement("style");
+      document.head.appendChild(this.styleElement);
+      cssStyleSheet = this.styleElement.sheet!;
+    }
+    this.cssStyleSheet = cssStyleSheet;
+    for (const rule of this.rules) {
+      rule.mount(cssStyleSheet, cssStyleSheet.cssRules.length);
+    }
+  }
+
+  /**
+   * Removes the style sheet's rules from the CSSOM
+   */
+  unmount() {
+    for (const rule of this.rules) {
+      rule.unmount();
+    }
+    this.styleElement?.remove();
+    this.styleElement = null;
+    this.cssStyleSheet = null;
+  }
+}
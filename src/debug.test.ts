@@ -0,0 +1,164 @@
+import {
+  AutomaticChannel,
+  batch,
+  ChannelCycleError,
+  DataChannel,
+} from "./channel";
+import { List, Number } from "./channelFn";
+import {
+  channelGraph,
+  channelId,
+  channelLabel,
+  formatIndex,
+  formatTrace,
+  graphToDOT,
+  graphToJSON,
+  indexToJSON,
+  trace,
+} from "./debug";
+import { changes, indexAll, indices, pathIndex } from "./indexSpecifier";
+
+test("format index", () => {
+  expect(formatIndex(indexAll)).toEqual("All");
+  expect(formatIndex(indices([1, "a"]))).toEqual('[1, "a"]');
+  expect(formatIndex(pathIndex([3, "price"]))).toEqual('[3: ["price"]]');
+  expect(
+    formatIndex(
+      changes(
+        [
+          { operation: "Insert", index: 0 },
+          { operation: "Move", from: 2, to: 1 },
+        ],
+        [0]
+      )
+    )
+  ).toEqual("Insert 0, Move 2 to 1; [0]");
+  expect(
+    formatIndex(changes([{ operation: "Delete", index: 2, count: 3 }], []))
+  ).toEqual("Delete 2 (3 items); []");
+  expect(formatIndex(indices([...Array(12).keys()]))).toEqual(
+    "[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, ... 2 more]"
+  );
+});
+
+test("index to JSON", () => {
+  const symbol = Symbol("s");
+  expect(indexToJSON(pathIndex([symbol, 1]))).toEqual({
+    indexType: "Indices",
+    indices: ["Symbol(s)"],
+    paths: { "Symbol(s)": { indexType: "Indices", indices: [1] } },
+  });
+});
+
+describe("graph", () => {
+  function graph() {
+    const list = new List([1, 2, 3]).named("list");
+    const doubled = list.map((x) => x * 2).named("doubled");
+    const sum = Number.sum(list).named("sum");
+    return { list, doubled, sum };
+  }
+
+  test("channels are found upstream and downstream", () => {
+    const { list, doubled, sum } = graph();
+    expect(channelGraph([doubled])).toEqual([list, doubled, sum]);
+    expect(channelLabel(list)).toMatch(/^list#\d+$/);
+    expect(channelLabel(new DataChannel(1))).toMatch(/^DataChannel#\d+$/);
+  });
+
+  test("JSON", () => {
+    const { list, doubled } = graph();
+    doubled.data;
+    list.setItem(1, 5);
+
+    const json = graphToJSON([list]);
+    expect(json.nodes.map(({ name, rank }) => [name, rank])).toEqual([
+      ["list", 0],
+      ["doubled", 1],
+      ["sum", 1],
+    ]);
+    const [listNode, doubledNode, sumNode] = json.nodes;
+    expect(listNode.dirty).toEqual({ indexType: "None" });
+    expect(doubledNode.dirty).toEqual({ indexType: "Indices", indices: [1] });
+    expect(json.edges).toEqual([
+      { from: listNode.id, to: doubledNode.id },
+      { from: listNode.id, to: sumNode.id },
+    ]);
+    // The dump survives a round trip through JSON
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+  });
+
+  test("DOT", () => {
+    const { list, doubled } = graph();
+    doubled.data;
+    list.setItem(1, 5);
+    const dot = graphToDOT([list]);
+    expect(dot).toContain(
+      `c${channelId(doubled)} [label="${channelLabel(
+        doubled
+      )}\\ndirty: [1]", style=filled];`
+    );
+    expect(dot).toContain(`[label="${channelLabel(list)}\\ndirty: None"];`);
+    expect(dot).toContain(`c${channelId(list)} -> c${channelId(doubled)};`);
+    expect(dot.startsWith("digraph channels {")).toBeTruthy();
+  });
+});
+
+test("trace", () => {
+  const list = new List([1, 2, 3]).named("list");
+  const doubled = list.map((x) => x * 2).named("doubled");
+  const total = new AutomaticChannel([doubled], (items) =>
+    items.reduce((a, b) => a + b, 0)
+  ).named("total");
+  const text = new DataChannel("a").named("text");
+  total.data;
+
+  const traced = trace(() => {
+    batch(() => {
+      list.setItem(0, 10);
+      text.data = "b";
+    });
+    return total.data;
+  });
+  expect(traced.result).toEqual(30);
+  expect(traced.marked).toEqual([doubled, total]);
+  expect(traced.updated).toEqual([
+    { channel: doubled, method: "updateIndexFunction" },
+    { channel: total, method: "updateFunction" },
+  ]);
+  expect(formatTrace(traced).split("\n")).toEqual([
+    `mutation ${channelLabel(list)} [0]`,
+    `markDirty ${channelLabel(list)} -> ${channelLabel(doubled)} [0]`,
+    `markDirty ${channelLabel(doubled)} -> ${channelLabel(total)} All`,
+    `mutation ${channelLabel(text)} All`,
+    `updateIndexFunction ${channelLabel(doubled)} [0]`,
+    `updateFunction ${channelLabel(total)} All`,
+  ]);
+
+  // Nothing is traced once the trace is over
+  list.setItem(0, 1);
+  expect(traced.events).toHaveLength(6);
+});
+
+test("changes made by subscribers are traced as mutations", () => {
+  const number = new Number(1).named("number");
+  number.subscribe((value) => {
+    if (value > 10) number.data = 10;
+  });
+
+  const traced = trace(() => {
+    number.data = 20;
+  });
+  expect(formatTrace(traced).split("\n")).toEqual([
+    `mutation ${channelLabel(number)} All`,
+    `mutation ${channelLabel(number)} All`,
+  ]);
+});
+
+test("cycle errors use channel names", () => {
+  const a = new DataChannel(1).named("a");
+  const b = Number.add(a, new Number(1)).named("b");
+  expect(() => b.connect(a, (index) => index)).toThrow(ChannelCycleError);
+  expect(() => b.connect(a, (index) => index)).toThrow(
+    "Channels are connected in a cycle: a -> b -> a"
+  );
+});
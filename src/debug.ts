@@ -0,0 +1,357 @@
+/**
+ * This file provides tools for debugging the channel graph
+ *
+ * Channels can be named (with `Channel.named`) so they are easy to pick out.
+ * The graph around any channels can be dumped as JSON or as Graphviz DOT,
+ * showing what is dirty in each channel, and a change can be traced through
+ * the graph to see which channels it marked dirty and which recalculated their
+ * data (and how).
+ */
+
+import {
+  AutomaticChannel,
+  Channel,
+  ChannelEvent,
+  observeChannels,
+} from "./channel";
+import { IndexSpecifier, Key, ListOperation } from "./indexSpecifier";
+
+/**
+ * How many keys of an index specifier to show before the rest are elided
+ */
+const shownKeys = 10;
+
+/**
+ * The IDs given to channels by the debugging tools, in order of first sight
+ */
+const channelIds = new WeakMap<Channel<any>, number>();
+let nextId = 0;
+
+/**
+ * Returns a number identifying a channel in debugging output. Channels are
+ * numbered in the order the debugging tools first see them.
+ * @param channel The channel
+ * @returns The channel's ID
+ */
+export function channelId(channel: Channel<any>): number {
+  let id = channelIds.get(channel);
+  if (id == null) {
+    id = nextId++;
+    channelIds.set(channel, id);
+  }
+  return id;
+}
+
+/**
+ * Returns a label for a channel in debugging output: its name (or class name
+ * if it has none) followed by its ID, like `count#3`
+ * @param channel The channel
+ * @returns The label
+ */
+export function channelLabel(channel: Channel<any>): string {
+  return `${channel.name ?? channel.constructor.name}#${channelId(channel)}`;
+}
+
+/**
+ * An index specifier in a form that can be serialized as JSON. Symbol keys
+ * are converted to strings.
+ */
+export type IndexSpecifierJSON =
+  | { indexType: "All" }
+  | { indexType: "None" }
+  | {
+      indexType: "Indices";
+      indices: (string | number)[];
+      paths?: Record<string, IndexSpecifierJSON>;
+      added?: (string | number)[];
+      removed?: (string | number)[];
+    }
+  | {
+      indexType: "Changes";
+      operations: ListOperation[];
+      indices: (string | number)[];
+    };
+
+/**
+ * Converts a key so that it can be serialized as JSON
+ */
+function keyToJSON(key: Key): string | number {
+  return typeof key === "symbol" ? key.toString() : key;
+}
+
+/**
+ * Converts an index specifier so that it can be serialized as JSON
+ * @param indexSpecifier The index specifier
+ * @returns The index specifier as plain data
+ */
+export function indexToJSON(
+  indexSpecifier: IndexSpecifier
+): IndexSpecifierJSON {
+  if (indexSpecifier.indexType === "Changes") {
+    return {
+      indexType: "Changes",
+      operations: indexSpecifier.operations.map((operation) => ({
+        ...operation,
+      })),
+      indices: [...indexSpecifier.indices].map(keyToJSON),
+    };
+  }
+  if (indexSpecifier.indexType !== "Indices") {
+    return { indexType: indexSpecifier.indexType };
+  }
+
+  const result: IndexSpecifierJSON = {
+    indexType: "Indices",
+    indices: [...indexSpecifier.indices].map(keyToJSON),
+  };
+  if (indexSpecifier.paths != null) {
+    result.paths = Object.fromEntries(
+      [...indexSpecifier.paths].map(([key, path]) => [
+        keyToJSON(key),
+        indexToJSON(path),
+      ])
+    );
+  }
+  if (indexSpecifier.added != null) {
+    result.added = [...indexSpecifier.added].map(keyToJSON);
+  }
+  if (indexSpecifier.removed != null) {
+    result.removed = [...indexSpecifier.removed].map(keyToJSON);
+  }
+  return result;
+}
+
+/**
+ * Formats an index specifier as short text, like `[1, 2]` or
+ * `Insert 0, Delete 3; [0]`. Long lists of keys are elided.
+ * @param indexSpecifier The index specifier
+ * @returns The text
+ */
+export function formatIndex(indexSpecifier: IndexSpecifier): string {
+  if (indexSpecifier.indexType === "All") return "All";
+  if (indexSpecifier.indexType === "None") return "None";
+
+  const keys = [...indexSpecifier.indices];
+  const shown = keys.slice(0, shownKeys).map((key) => {
+    const path =
+      indexSpecifier.indexType === "Indices"
+        ? indexSpecifier.paths?.get(key)
+        : undefined;
+    const text = typeof key === "string" ? JSON.stringify(key) : String(key);
+    return path == null ? text : `${text}: ${formatIndex(path)}`;
+  });
+  if (keys.length > shownKeys) {
+    shown.push(`... ${keys.length - shownKeys} more`);
+  }
+  const indices = `[${shown.join(", ")}]`;
+
+  if (indexSpecifier.indexType === "Indices") return indices;
+  const operations = indexSpecifier.operations.map((operation) =>
+    operation.operation === "Move"
+      ? `Move ${operation.from} to ${operation.to}`
+      : operation.count == null || operation.count === 1
+      ? `${operation.operation} ${operation.index}`
+      : `${operation.operation} ${operation.index} (${operation.count} items)`
+  );
+  return `${operations.join(", ")}; ${indices}`;
+}
+
+/**
+ * Finds all the channels connected to the specified channels, upstream and
+ * downstream
+ * @param channels The channels to start from
+ * @returns The connected channels (including the specified ones), in
+ * topological order
+ */
+export function channelGraph(channels: Channel<any>[]): Channel<any>[] {
+  const found = new Set<Channel<any>>();
+  const queue = [...channels];
+  for (let i = 0; i < queue.length; i++) {
+    const channel = queue[i];
+    if (found.has(channel)) continue;
+    found.add(channel);
+    // Number channels as they are found, so the numbering follows the graph
+    channelId(channel);
+    for (const { channel: downstream } of channel.connectedChannels) {
+      queue.push(downstream);
+    }
+    if (channel instanceof AutomaticChannel) {
+      queue.push(...channel.incomingChannels);
+    }
+  }
+  return [...found].sort(
+    (channel1, channel2) =>
+      channel1.rank - channel2.rank || channelId(channel1) - channelId(channel2)
+  );
+}
+
+/**
+ * A channel in a dump of the channel graph
+ */
+export interface ChannelNode {
+  id: number;
+  label: string;
+  name?: string;
+  type: string;
+  rank: number;
+  eager: boolean;
+  subscribers: number;
+  dirty: IndexSpecifierJSON;
+}
+
+/**
+ * A dump of the channel graph that can be serialized as JSON. Each edge goes
+ * from a channel to a channel connected downstream of it, by ID.
+ */
+export interface ChannelGraphJSON {
+  nodes: ChannelNode[];
+  edges: { from: number; to: number }[];
+}
+
+/**
+ * Dumps the channel graph around the specified channels as JSON-serializable
+ * data, including what is dirty in each channel
+ * @param channels The channels whose graph to dump
+ * @returns The graph
+ */
+export function graphToJSON(channels: Channel<any>[]): ChannelGraphJSON {
+  const graph = channelGraph(channels);
+  return {
+    nodes: graph.map((channel) => ({
+      id: channelId(channel),
+      label: channelLabel(channel),
+      ...(channel.name == null ? {} : { name: channel.name }),
+      type: channel.constructor.name,
+      rank: channel.rank,
+      eager: channel.eager,
+      subscribers: channel.subscribers.length,
+      dirty: indexToJSON(channel.dirtyIndex),
+    })),
+    edges: graph.flatMap((channel) =>
+      channel.connectedChannels.map(({ channel: downstream }) => ({
+        from: channelId(channel),
+        to: channelId(downstream),
+      }))
+    ),
+  };
+}
+
+/**
+ * Dumps the channel graph around the specified channels in the Graphviz DOT
+ * language. Each channel is labeled with what is dirty in it, and dirty
+ * channels are highlighted.
+ * @param channels The channels whose graph to dump
+ * @returns The DOT source
+ */
+export function graphToDOT(channels: Channel<any>[]): string {
+  const graph = channelGraph(channels);
+  const lines = ["digraph channels {", "  node [shape=box];"];
+  for (const channel of graph) {
+    const dirty = channel.dirtyIndex;
+    const label = `${channelLabel(channel)}\\ndirty: ${formatIndex(dirty)}`;
+    const style = dirty.indexType === "None" ? "" : ", style=filled";
+    lines.push(`  c${channelId(channel)} [label=${quote(label)}${style}];`);
+  }
+  for (const channel of graph) {
+    for (const { channel: downstream } of channel.connectedChannels) {
+      lines.push(`  c${channelId(channel)} -> c${channelId(downstream)};`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Quotes a DOT string, keeping the `\n` line breaks in it
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * What happened in the channel graph while running a function
+ */
+export interface Trace<T> {
+  /**
+   * What the function returned
+   */
+  result: T;
+
+  /**
+   * Every event, in order
+   */
+  events: ChannelEvent[];
+
+  /**
+   * The channels that were marked dirty, in order of when they were first
+   * marked
+   */
+  marked: Channel<any>[];
+
+  /**
+   * The channels that recalculated their data, in order, and how
+   */
+  updated: {
+    channel: Channel<any>;
+    method: "updateFunction" | "updateIndexFunction";
+  }[];
+}
+
+/**
+ * Traces a change through the channel graph: runs a function (which changes
+ * and usually reads channel data) and records which channels were marked
+ * dirty and which recalculated their data. Since automatic channels are lazy,
+ * only data read during the function (including by subscribers and eager
+ * channels) is recalculated.
+ * @param fn The function to run
+ * @returns The trace
+ */
+export function trace<T>(fn: () => T): Trace<T> {
+  const events: ChannelEvent[] = [];
+  const stop = observeChannels((event) => events.push(event));
+  let result: T;
+  try {
+    result = fn();
+  } finally {
+    stop();
+  }
+
+  const marked = new Set<Channel<any>>();
+  const updated: Trace<T>["updated"] = [];
+  for (const event of events) {
+    if (event.type === "markDirty") {
+      marked.add(event.channel);
+    } else if (event.type === "update") {
+      updated.push({ channel: event.channel, method: event.method });
+    }
+  }
+  return { result, events, marked: [...marked], updated };
+}
+
+/**
+ * Formats the events of a trace as text, one line per event
+ * @param trace The trace
+ * @returns The text
+ */
+export function formatTrace(trace: Trace<unknown>): string {
+  return trace.events.map(formatEvent).join("\n");
+}
+
+/**
+ * Formats a channel event as a line of text
+ */
+function formatEvent(event: ChannelEvent): string {
+  if (event.type === "mutation") {
+    return `mutation ${channelLabel(event.channel)} ${formatIndex(
+      event.indexSpecifier
+    )}`;
+  }
+  if (event.type === "markDirty") {
+    return `markDirty ${channelLabel(event.source)} -> ${channelLabel(
+      event.channel
+    )} ${formatIndex(event.indexSpecifier)}`;
+  }
+  return `${event.method} ${channelLabel(event.channel)} ${formatIndex(
+    event.dirty
+  )}`;
+}
@@ -0,0 +1,570 @@
+import { batch } from "./channel";
+import { DataChannel } from "./channel";
+import { List, Number, String } from "./channelFn";
+import { Element, Fragment, hydrate, HydrationMismatchError } from "./dom";
+import {
+  MemoryElement,
+  MemoryNode,
+  memoryRenderer,
+  MemoryText,
+} from "./memoryRenderer";
+import { Renderer } from "./renderer";
+
+/**
+ * Creates a list item element with the specified text
+ */
+function item(text: string, key?: string) {
+  return new Element("li", new List([new Fragment(new String(text))]), {
+    key,
+  });
+}
+
+/**
+ * Mounts a channel into a new in-memory root element
+ */
+function mount(channel: Element | Fragment): MemoryElement {
+  const root = new MemoryElement("body");
+  channel.mount(root, null, memoryRenderer);
+  return root;
+}
+
+describe("mount", () => {
+  test("nested elements", () => {
+    const app = new Element(
+      "div",
+      new List([
+        new Fragment(new String("Hello ")),
+        new Element("b", new List([new Fragment(new String("world"))])),
+      ])
+    );
+    const root = mount(app);
+    expect(root.toHTML()).toEqual("<body><div>Hello <b>world</b></div></body>");
+    expect(app.node).toBe(root.children[0]);
+  });
+
+  test("text updates", () => {
+    const text = new String("a");
+    const fragment = new Fragment(text);
+    const root = mount(fragment);
+    const node = root.children[0];
+
+    text.data = "b";
+    expect(root.toHTML()).toEqual("<body>b</body>");
+    // The text node is updated in place
+    expect(root.children[0]).toBe(node);
+  });
+});
+
+describe("list children", () => {
+  test("fine-grained updates", () => {
+    const list = new List([1, 2, 3]);
+    const app = new Element(
+      "ul",
+      list.map((number) => item(`${number}`))
+    );
+    const root = mount(app);
+    expect(root.toHTML()).toEqual(
+      "<body><ul><li>1</li><li>2</li><li>3</li></ul></body>"
+    );
+    const ul = root.children[0] as MemoryElement;
+    const [first, second, third] = ul.children;
+
+    // Setting an item only replaces its node
+    list.setItem(1, 20);
+    expect(ul.toHTML()).toEqual("<ul><li>1</li><li>20</li><li>3</li></ul>");
+    expect(ul.children[0]).toBe(first);
+    expect(ul.children[2]).toBe(third);
+    expect(ul.children[1]).not.toBe(second);
+
+    // Inserting keeps the existing nodes
+    list.insert(0, 0);
+    list.push(4);
+    expect(ul.toHTML()).toEqual(
+      "<ul><li>0</li><li>1</li><li>20</li><li>3</li><li>4</li></ul>"
+    );
+    expect(ul.children[1]).toBe(first);
+    expect(ul.children[3]).toBe(third);
+
+    // Moving and removing keep the remaining nodes
+    list.move(3, 0);
+    list.remove(2);
+    list.pop();
+    expect(ul.toHTML()).toEqual("<ul><li>3</li><li>0</li><li>20</li></ul>");
+    expect(ul.children[0]).toBe(third);
+  });
+
+  test("splicing several children", () => {
+    const list = new List([1, 2, 3, 4, 5]);
+    const root = mount(
+      new Element(
+        "ul",
+        list.map((number) => item(`${number}`))
+      )
+    );
+    const ul = root.children[0] as MemoryElement;
+    const [first, , , , fifth] = ul.children;
+
+    list.splice(1, 3);
+    list.splice(1, 0, 6, 7);
+    expect(ul.toHTML()).toEqual(
+      "<ul><li>1</li><li>6</li><li>7</li><li>5</li></ul>"
+    );
+    expect(ul.children[0]).toBe(first);
+    expect(ul.children[3]).toBe(fifth);
+  });
+
+  test("batched changes", () => {
+    const list = new List([1, 2]);
+    const root = mount(
+      new Element(
+        "ul",
+        list.map((number) => item(`${number}`))
+      )
+    );
+
+    batch(() => {
+      list.push(3);
+      list.insert(0, 0);
+      list.remove(1);
+      list.setItem(2, 30);
+    });
+    expect(root.toHTML()).toEqual(
+      "<body><ul><li>0</li><li>2</li><li>30</li></ul></body>"
+    );
+  });
+
+  test("removed children are unmounted but not disposed", () => {
+    const texts = [new String("a"), new String("b")];
+    const children = new List(texts.map((text) => new Fragment(text)));
+    const root = mount(new Element("p", children));
+
+    const removed = children.remove(0)!;
+    expect(root.toHTML()).toEqual("<body><p>b</p></body>");
+    expect(removed.node).toBeNull();
+    // The removed fragment is left to its creator, which may show it again
+    expect(texts[0].connectedChannels).toHaveLength(1);
+
+    children.insert(1, removed);
+    texts[0].data = "A";
+    expect(root.toHTML()).toEqual("<body><p>bA</p></body>");
+  });
+
+  test("children that are hidden and shown again stay live", () => {
+    const labels = ["a", "b", "c"].map((text) => new String(text));
+    const elements = labels.map(
+      (label) => new Element("li", new List([new Fragment(label)]))
+    );
+    const hidden = new Set<Element>();
+    const list = new List(elements);
+    const root = mount(
+      new Element(
+        "ul",
+        list.filter((element) => !hidden.has(element))
+      )
+    );
+
+    hidden.add(elements[1]);
+    list.setItem(1, elements[1]);
+    expect(root.toHTML()).toEqual("<body><ul><li>a</li><li>c</li></ul></body>");
+
+    hidden.delete(elements[1]);
+    list.setItem(1, elements[1]);
+    labels[1].data = "B!";
+    expect(root.toHTML()).toEqual(
+      "<body><ul><li>a</li><li>B!</li><li>c</li></ul></body>"
+    );
+    expect(labels[1].connectedChannels).toHaveLength(1);
+  });
+
+  test("disposing an element disposes its mapped children", () => {
+    const list = new List(["a", "b"]);
+    const items = list.map((text) => item(text));
+    const element = new Element("ul", items);
+    mount(element);
+    expect(list.connectedChannels).toHaveLength(1);
+
+    element.dispose();
+    expect(items.connectedChannels).toHaveLength(0);
+    expect(list.connectedChannels).toHaveLength(0);
+  });
+
+  test("children channels still in use are not disposed", () => {
+    const list = new List(["a", "b"]);
+    const items = list.map((text) => item(text));
+    const subscriber = jest.fn();
+    items.subscribe(subscriber);
+    const element = new Element("ul", items);
+    mount(element);
+
+    element.dispose();
+    expect(list.connectedChannels).toHaveLength(1);
+    list.push("c");
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  test("keyed children are moved rather than recreated", () => {
+    const children = new List([item("a", "a"), item("b", "b"), item("c", "c")]);
+    const root = mount(new Element("ul", children));
+    const ul = root.children[0] as MemoryElement;
+    const [a, b, c] = ul.children;
+
+    // Replace the whole list with new children, reusing two keys
+    children.data = [item("c", "c"), item("d", "d"), item("a", "a")];
+    expect(ul.toHTML()).toEqual("<ul><li>c</li><li>d</li><li>a</li></ul>");
+    expect(ul.children[0]).toBe(c);
+    expect(ul.children[2]).toBe(a);
+    expect(ul.children).not.toContain(b);
+  });
+});
+
+describe("element options", () => {
+  test("attributes, properties and styles", () => {
+    const className = new String("big");
+    const value = new String("text");
+    const color = new String("red");
+    const element = new Element("input", new List<Element | Fragment>([]), {
+      attributes: { class: className, disabled: true, hidden: false },
+      properties: { value },
+      style: { color },
+    });
+    const root = mount(element);
+    const input = root.children[0] as MemoryElement;
+    expect(input.attributes).toEqual({ class: "big", disabled: "" });
+    expect(input.properties).toEqual({ value: "text" });
+    expect(input.style).toEqual({ color: "red" });
+
+    // Each channel updates its own attribute, property or style
+    className.data = "small";
+    value.data = "new text";
+    color.data = "blue";
+    expect(input.attributes).toEqual({ class: "small", disabled: "" });
+    expect(input.properties).toEqual({ value: "new text" });
+    expect(input.style).toEqual({ color: "blue" });
+  });
+
+  test("null and false remove attributes and styles", () => {
+    const title = new DataChannel<string | null>("tip");
+    const disabled = new DataChannel(true);
+    const color = new DataChannel<string | null>("red");
+    const element = new Element("button", new List<Element | Fragment>([]), {
+      attributes: { title, disabled },
+      style: { color },
+    });
+    const root = mount(element);
+    const button = root.children[0] as MemoryElement;
+    expect(button.toHTML()).toEqual(
+      '<button title="tip" disabled="" style="color: red"></button>'
+    );
+
+    title.data = null;
+    disabled.data = false;
+    color.data = null;
+    expect(button.attributes).toEqual({});
+    expect(button.style).toEqual({});
+  });
+
+  test("event listeners", () => {
+    const click = jest.fn();
+    const element = new Element("button", new List<Element | Fragment>([]), {
+      events: { click },
+    });
+    const root = mount(element);
+    const button = root.children[0] as MemoryElement;
+
+    button.dispatch("click");
+    expect(click).toHaveBeenCalledTimes(1);
+
+    // Listeners are removed once the element is unmounted
+    element.unmount();
+    button.dispatch("click");
+    expect(click).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("bindings", () => {
+  // Simulates the user changing a property of a node and the resulting event
+  function input(node: MemoryElement, name: string, value: any, type: string) {
+    node.properties[name] = value;
+    node.dispatch(type);
+  }
+
+  test("text value", () => {
+    const text = new String("a");
+    const root = mount(
+      new Element("textarea", new List<Element | Fragment>([]), {
+        bindings: { value: text },
+      })
+    );
+    const textarea = root.children[0] as MemoryElement;
+    expect(textarea.properties.value).toEqual("a");
+
+    input(textarea, "value", "ab", "input");
+    expect(text.data).toEqual("ab");
+
+    text.data = "c";
+    expect(textarea.properties.value).toEqual("c");
+  });
+
+  test("number value", () => {
+    const number = new Number(1);
+    const root = mount(
+      new Element("input", new List<Element | Fragment>([]), {
+        attributes: { type: "number" },
+        bindings: { value: number },
+      })
+    );
+    const node = root.children[0] as MemoryElement;
+    expect(node.properties.value).toEqual(1);
+
+    // The input is parsed, but is not written back to the node
+    input(node, "value", "2.", "input");
+    expect(number.data).toEqual(2);
+    expect(node.properties.value).toEqual("2.");
+
+    // Input that is not a number yet is ignored
+    input(node, "value", "-", "input");
+    expect(number.data).toEqual(2);
+
+    number.data = 3;
+    expect(node.properties.value).toEqual(3);
+  });
+
+  test("checked", () => {
+    const checked = new DataChannel(false);
+    const root = mount(
+      new Element("input", new List<Element | Fragment>([]), {
+        attributes: { type: "checkbox" },
+        bindings: { checked },
+      })
+    );
+    const checkbox = root.children[0] as MemoryElement;
+
+    input(checkbox, "checked", true, "change");
+    expect(checked.data).toBe(true);
+
+    checked.data = false;
+    expect(checkbox.properties.checked).toBe(false);
+  });
+
+  test("select value and selected options", () => {
+    const value = new String("b");
+    const selected = [new DataChannel(false), new DataChannel(true)];
+    const option = (text: string, i: number) =>
+      new Element("option", new List([new Fragment(new String(text))]), {
+        attributes: { value: text },
+        bindings: { selected: selected[i] },
+      });
+    const root = mount(
+      new Element("select", new List([option("a", 0), option("b", 1)]), {
+        bindings: { value },
+      })
+    );
+    const select = root.children[0] as MemoryElement;
+    const [a, b] = select.children as MemoryElement[];
+    expect(select.properties.value).toEqual("b");
+
+    // Changing the selection reads both the value and the options
+    select.properties.value = "a";
+    a.properties.selected = true;
+    b.properties.selected = false;
+    select.dispatch("change");
+    expect(value.data).toEqual("a");
+    expect(selected.map((channel) => channel.data)).toEqual([true, false]);
+  });
+
+  test("select value is set once its options are mounted", () => {
+    // Record how many options the select had when its value was set, since a
+    // real select ignores a value none of its options have
+    const optionCounts: number[] = [];
+    const renderer: Renderer<MemoryNode> = {
+      ...memoryRenderer,
+      setProperty: (node, name, value) => {
+        if (name === "value") {
+          optionCounts.push((node as MemoryElement).children.length);
+        }
+        memoryRenderer.setProperty(node, name, value);
+      },
+    };
+    const option = (text: string) =>
+      new Element("option", new List([new Fragment(new String(text))]), {
+        attributes: { value: text },
+      });
+    const select = new Element("select", new List([option("a"), option("b")]), {
+      bindings: { value: new String("b") },
+    });
+    select.mount(new MemoryElement("body"), null, renderer);
+    expect(optionCounts).toEqual([2]);
+
+    // The same goes for hydrating server-rendered nodes
+    const root = new MemoryElement("body");
+    new Element("select", new List([option("a"), option("b")]), {
+      properties: { value: "b" },
+    }).mount(root, null, memoryRenderer);
+    optionCounts.length = 0;
+    hydrate(
+      new Element("select", new List([option("a"), option("b")]), {
+        properties: { value: "b" },
+      }),
+      root,
+      renderer
+    );
+    expect(optionCounts).toEqual([2]);
+  });
+});
+
+describe("lifecycle", () => {
+  test("mount and unmount hooks", () => {
+    const text = new String("a");
+    const fragment = new Fragment(text);
+    const cleanup = jest.fn();
+    const mountHook = jest.fn(() => cleanup);
+    const unmountHook = jest.fn();
+    fragment.onMount(mountHook);
+    fragment.onUnmount(unmountHook);
+
+    const root = mount(fragment);
+    expect(mountHook).toHaveBeenCalledWith(root.children[0]);
+    expect(fragment.eager).toBeTruthy();
+
+    fragment.unmount();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(unmountHook).toHaveBeenCalledTimes(1);
+    expect(root.children).toHaveLength(0);
+    expect(fragment.node).toBeNull();
+    expect(fragment.eager).toBeFalsy();
+
+    // Hooks run again when remounted
+    text.data = "b";
+    fragment.mount(root);
+    expect(root.toHTML()).toEqual("<body>b</body>");
+    expect(mountHook).toHaveBeenCalledTimes(2);
+  });
+
+  test("unmounting an element unmounts its children", () => {
+    const child = new Fragment(new String("a"));
+    const unmountHook = jest.fn();
+    child.onUnmount(unmountHook);
+    const element = new Element("p", new List([child]));
+    const root = mount(element);
+
+    element.unmount();
+    expect(unmountHook).toHaveBeenCalledTimes(1);
+    expect(child.node).toBeNull();
+    expect(root.children).toHaveLength(0);
+  });
+
+  test("removed children are unmounted", () => {
+    const text = new String("a");
+    const child = new Fragment(text);
+    const unmountHook = jest.fn();
+    child.onUnmount(unmountHook);
+    const children = new List([child, new Fragment(new String("b"))]);
+    const root = mount(new Element("p", children));
+    const [node] = (root.children[0] as MemoryElement).children;
+
+    children.remove(0);
+    expect(unmountHook).toHaveBeenCalledWith(node);
+    expect(child.node).toBeNull();
+    expect(child.eager).toBeFalsy();
+    expect(root.toHTML()).toEqual("<body><p>b</p></body>");
+  });
+});
+
+describe("hydrate", () => {
+  // Builds a server-rendered tree by hand
+  function serverTree() {
+    const root = new MemoryElement("body");
+    const ul = new MemoryElement("ul");
+    memoryRenderer.insert(root, ul, null);
+    for (const text of ["Num: 1", "Num: 2"]) {
+      const li = new MemoryElement("li");
+      memoryRenderer.insert(ul, li, null);
+      memoryRenderer.insert(li, new MemoryText(text), null);
+    }
+    return { root, ul };
+  }
+
+  function app(list: List<number>) {
+    return new Element(
+      "ul",
+      list.map(
+        (number) =>
+          new Element(
+            "li",
+            new List([
+              new Fragment(new String("Num: ")),
+              new Fragment(new String(`${number}`)),
+            ])
+          )
+      )
+    );
+  }
+
+  test("binds to existing nodes", () => {
+    const { root, ul } = serverTree();
+    const [first, second] = ul.children;
+    const list = new List([1, 2]);
+    const element = app(list);
+
+    hydrate(element, root, memoryRenderer);
+    expect(element.node).toBe(ul);
+    expect(ul.children[0]).toBe(first);
+    expect(ul.children[1]).toBe(second);
+    // Merged text is split between the fragments
+    expect((first as MemoryElement).children).toHaveLength(2);
+
+    // Later updates patch the existing nodes
+    list.push(3);
+    list.setItem(0, 10);
+    expect(root.toHTML()).toEqual(
+      "<body><ul><li>Num: 10</li><li>Num: 2</li><li>Num: 3</li></ul></body>"
+    );
+    expect(ul.children[1]).toBe(second);
+  });
+
+  test("attaches event listeners and attribute channels", () => {
+    const root = new MemoryElement("body");
+    const button = new MemoryElement("button");
+    memoryRenderer.insert(root, button, null);
+    memoryRenderer.setAttribute(button, "class", "big");
+    const className = new String("big");
+    const click = jest.fn();
+
+    hydrate(
+      new Element("button", new List<Element | Fragment>([]), {
+        attributes: { class: className },
+        events: { click },
+      }),
+      root,
+      memoryRenderer
+    );
+    button.dispatch("click");
+    expect(click).toHaveBeenCalledTimes(1);
+    className.data = "small";
+    expect(root.toHTML()).toEqual(
+      '<body><button class="small"></button></body>'
+    );
+  });
+
+  test("mismatches", () => {
+    expect(() =>
+      hydrate(app(new List([1, 3])), serverTree().root, memoryRenderer)
+    ).toThrow(
+      new HydrationMismatchError('Expected text "3" but found text "2"')
+    );
+    expect(() =>
+      hydrate(app(new List([1])), serverTree().root, memoryRenderer)
+    ).toThrow(
+      new HydrationMismatchError(
+        "Expected no more children in <ul> but found <li>"
+      )
+    );
+    expect(() =>
+      hydrate(
+        new Element("ol", new List<Element | Fragment>([])),
+        serverTree().root,
+        memoryRenderer
+      )
+    ).toThrow(new HydrationMismatchError("Expected <ol> but found <ul>"));
+  });
+});
@@ -1,4 +1,102 @@
-import { AutomaticChannel, Channel } from "./channel";
+import { AutomaticChannel, Channel, DataChannel } from "./channel";
+import {
+  applyListOperation,
+  Key,
+  keyedChanges,
+  ListOperation,
+} from "./indexSpecifier";
+import { domRenderer, RenderNode, Renderer } from "./renderer";
+
+/**
+ * A value that is either static or stored in a channel that can change
+ */
+export type MaybeChannel<T> = T | Channel<T>;
+
+/**
+ * The value of an HTML attribute. Attributes that are null or false are
+ * removed, and attributes that are true are set without a value.
+ */
+export type AttributeValue = string | number | boolean | null;
+
+/**
+ * Two-way bindings between an element's form state and data channels. The
+ * element's property is kept in sync with the channel, and user input sets the
+ * channel's data:
+ * - `value` binds an `<input>`, `<textarea>` or `<select>`'s value. If the
+ *   channel stores a number, the input is parsed as one (input that is not yet
+ *   a number, like "-", leaves the channel alone).
+ * - `checked` binds a checkbox or radio button's checked state.
+ * - `selected` binds an `<option>`'s selected state, and is read whenever the
+ *   `<select>` it is in changes.
+ */
+export interface Bindings {
+  value?: DataChannel<string> | DataChannel<number>;
+  checked?: DataChannel<boolean>;
+  selected?: DataChannel<boolean>;
+}
+
+/**
+ * The attributes, properties, inline styles, event listeners and bindings to
+ * set on an element. Attributes, properties and styles that are channels update
+ * individually whenever their channel changes. The key identifies the element
+ * among its siblings (see {@link BaseDOM.key}).
+ */
+export interface ElementOptions {
+  key?: Key;
+  attributes?: Record<string, MaybeChannel<AttributeValue>>;
+  properties?: Record<string, MaybeChannel<any>>;
+  style?: Record<string, MaybeChannel<string | null>>;
+  events?: Record<string, EventListener>;
+  bindings?: Bindings;
+}
+
+/**
+ * Reads a value that may be stored in a channel
+ * @param value A static value or a channel
+ * @returns The static value or the channel's data
+ */
+export function read<T>(value: MaybeChannel<T>): T {
+  return value instanceof Channel ? value.data : value;
+}
+
+/**
+ * An error that is thrown if a DOM channel tree does not match the existing
+ * DOM it is hydrating
+ */
+export class HydrationMismatchError extends Error {}
+
+/**
+ * Describes a node for error messages
+ * @param renderer The renderer that created the node
+ * @param node A node, or null if there is no node
+ * @returns A short description of the node
+ */
+function describeNode(renderer: Renderer, node: RenderNode | null): string {
+  if (node == null) return "nothing";
+  const text = renderer.getText(node);
+  if (text != null) return `text ${JSON.stringify(text)}`;
+  const tag = renderer.tagName(node);
+  if (tag != null) return `<${tag}>`;
+  return "a non-element node";
+}
+
+/**
+ * Attaches a DOM channel tree to existing DOM that was rendered on the server
+ * (see `renderToString`), binding each channel to its matching node
+ * without recreating it. Later changes patch the existing DOM in place.
+ * @param app The root element or fragment
+ * @param rootNode The node the app was rendered into, whose first child is the
+ * app's node
+ * @param renderer The renderer that created the existing nodes
+ * @throws {HydrationMismatchError} If the DOM does not match the channel tree
+ */
+export function hydrate(
+  app: Element | Fragment,
+  rootNode: RenderNode,
+  renderer: Renderer = app.renderer
+) {
+  app.hydrate(rootNode, renderer.firstChild(rootNode), renderer);
+}
 
 /**
  * The type description of an element
@@ -6,29 +104,166 @@ import { AutomaticChannel, Channel } from "./channel";
 export interface ElementType {
   tag: string;
   children: (Element | Fragment)[];
+  options: ElementOptions;
 }
 
 /**
  * The base class for all DOM channels. Any DOM channel is mountable and
  * renderable and stores a reference to its connected node. DOM channels inherit
  * from automatic channels so they can watch an underlying data stream for
- * changes.
+ * changes. Nodes are created and modified through a {@link Renderer}, which is
+ * passed down from parents to their children when they are mounted.
  */
 export abstract class BaseDOM<
   DataType,
   IncomingChannelType extends Channel<any>[] | [Channel<any>]
 > extends AutomaticChannel<DataType, IncomingChannelType> {
   // The node that the channel is mounted on, or null if it is unmounted
-  public node: Node | null = null;
+  public node: RenderNode | null = null;
+
+  // The renderer that creates and modifies the channel's nodes
+  public renderer: Renderer = domRenderer;
+
+  /**
+   * An optional key that identifies the channel among its siblings. When an
+   * element's children are replaced, a new child with the same key as a mounted
+   * child is considered the same child: the mounted child's node is moved into
+   * place rather than rerendered. Keys should be unique among siblings and
+   * should change whenever the child's rendered content would.
+   */
+  abstract readonly key?: Key;
 
   // Render the actual DOM node
-  abstract render(): Node;
+  abstract render(): RenderNode;
+
+  // Hooks to run with the node whenever the channel is mounted
+  protected mountHooks: ((node: RenderNode) => void | (() => void))[] = [];
+
+  // Hooks to run with the node whenever the channel is unmounted
+  protected unmountHooks: ((node: RenderNode) => void)[] = [];
+
+  // Cleanup functions returned by mount hooks, run on the next unmount
+  protected cleanups: (() => void)[] = [];
+
+  // Whether to dispose the channel once it is unmounted
+  protected disposeOnUnmount = false;
+
+  /**
+   * Registers a hook to run with the node whenever the channel is mounted (or
+   * right away if it is already mounted). The hook may return a cleanup
+   * function that runs when the channel is next unmounted, which is useful for
+   * stopping timers and subscriptions.
+   * @param hook The hook to run
+   */
+  onMount(hook: (node: RenderNode) => void | (() => void)) {
+    this.mountHooks.push(hook);
+    if (this.node != null) {
+      this.runMountHook(hook, this.node);
+    }
+  }
+
+  /**
+   * Registers a hook to run with the node whenever the channel is unmounted,
+   * before the node is detached
+   * @param hook The hook to run
+   */
+  onUnmount(hook: (node: RenderNode) => void) {
+    this.unmountHooks.push(hook);
+  }
+
+  // Bind the channel to an existing node in a parent instead of rendering a
+  // new one, throwing a HydrationMismatchError if the node does not match
+  hydrate(
+    parent: RenderNode,
+    node: RenderNode | null,
+    renderer: Renderer = this.renderer
+  ) {
+    this.renderer = renderer;
+    this.hydrateNode(parent, node);
+  }
 
-  // Mount the node into a parent
-  mount(parent: Node) {
+  // Bind the channel to an existing node using the channel's renderer
+  protected abstract hydrateNode(
+    parent: RenderNode,
+    node: RenderNode | null
+  ): void;
+
+  // Mount the node into a parent, before the specified child node if provided
+  mount(
+    parent: RenderNode,
+    before: RenderNode | null = null,
+    renderer: Renderer = this.renderer
+  ) {
+    this.renderer = renderer;
     const node = this.render();
+    renderer.insert(parent, node, before);
+    this.attach(node);
+  }
+
+  // Track the node the channel is mounted on and run the mount hooks
+  protected attach(node: RenderNode) {
     this.node = node;
-    parent.appendChild(node);
+
+    // Reflect changes in the node immediately while it is mounted
+    this.eager = true;
+    for (const hook of this.mountHooks) {
+      this.runMountHook(hook, node);
+    }
+  }
+
+  // Detach the node from its parent and stop reflecting changes in it
+  unmount() {
+    const node = this.node;
+    if (node == null) return;
+
+    // Run the cleanups and hooks while the node is still attached
+    for (const cleanup of this.cleanups) {
+      cleanup();
+    }
+    this.cleanups = [];
+    for (const hook of this.unmountHooks) {
+      hook(node);
+    }
+
+    this.renderer.remove(node);
+    this.node = null;
+    this.eager = false;
+    if (this.disposeOnUnmount) {
+      this.dispose();
+    }
+  }
+
+  // Unmount and dispose the channel, along with the channels feeding it unless
+  // something else still uses them
+  dispose() {
+    this.unmount();
+    super.dispose();
+    this.disposeUnusedIncomingChannels();
+  }
+
+  /**
+   * Disposes the channel once it is no longer mounted: right away if it is
+   * unmounted, or else as soon as it is unmounted. An element only unmounts the
+   * children it removes, since they may be shown again, so whoever created a
+   * child calls this once it no longer uses the child.
+   */
+  disposeWhenUnmounted() {
+    if (this.node == null) {
+      this.dispose();
+    } else {
+      this.disposeOnUnmount = true;
+    }
+  }
+
+  // Run a mount hook, keeping track of any cleanup function it returns
+  protected runMountHook(
+    hook: (node: RenderNode) => void | (() => void),
+    node: RenderNode
+  ) {
+    const cleanup = hook(node);
+    if (typeof cleanup === "function") {
+      this.cleanups.push(cleanup);
+    }
   }
 }
 
@@ -36,20 +271,53 @@ export abstract class BaseDOM<
  * A fragment renders HTML text nodes
  */
 export class Fragment extends BaseDOM<string, [Channel<string>]> {
-  public node: Text | null = null;
-
-  render(): Text {
+  render(): RenderNode {
     const data = this.data;
     // Render text
-    return document.createTextNode(data);
+    return this.renderer.createText(data);
   }
 
-  update(node: Text, newData: string): void {
+  update(node: RenderNode, newData: string): void {
     // Update the text content
-    node.textContent = newData;
+    this.renderer.setText(node, newData);
+  }
+
+  protected hydrateNode(parent: RenderNode, node: RenderNode | null): void {
+    const data = this.data;
+    const text = node == null ? null : this.renderer.getText(node);
+    if (text == null) {
+      if (data === "") {
+        // Empty text has no node on the server, so create one
+        const textNode = this.renderer.createText("");
+        this.renderer.insert(parent, textNode, node);
+        this.attach(textNode);
+        return;
+      }
+      throw new HydrationMismatchError(
+        `Expected text ${JSON.stringify(data)} but found ${describeNode(
+          this.renderer,
+          node
+        )}`
+      );
+    }
+
+    if (!text.startsWith(data)) {
+      throw new HydrationMismatchError(
+        `Expected text ${JSON.stringify(data)} but found ${describeNode(
+          this.renderer,
+          node
+        )}`
+      );
+    }
+    if (text.length > data.length) {
+      // Adjacent text is merged into one node on the server, so split off the
+      // text that belongs to the following fragments
+      this.renderer.splitText(node, data.length);
+    }
+    this.attach(node);
   }
 
-  constructor(incomingData: Channel<string>) {
+  constructor(incomingData: Channel<string>, readonly key?: Key) {
     super(
       [incomingData],
       (newData) => {
@@ -61,8 +329,9 @@ export class Fragment extends BaseDOM<string, [Channel<string>]> {
       },
       undefined,
       undefined,
-      // Eagerly update to reflect DOM changes immediately
-      true
+      undefined,
+      // Updates only become eager once the node is mounted
+      false
     );
   }
 }
@@ -74,41 +343,272 @@ export class Element extends BaseDOM<
   ElementType,
   [Channel<(Element | Fragment)[]>]
 > {
-  render(): HTMLElement {
+  // The child channels mounted in the node, in the same order as its child
+  // nodes. Children that are removed are unmounted rather than disposed, since
+  // they may be shown again, but the element disposes them along with itself
+  protected mountedChildren: (Element | Fragment)[] = [];
+
+  // Functions to unsubscribe from the attribute, property, style and binding
+  // channels
+  protected unsubscribers: (() => void)[] = [];
+
+  // Listeners that read bound form state back from the node, by event type
+  protected bindingListeners: Record<string, EventListener> = {};
+
+  // Whether bound form state is being read back from the node, in which case
+  // the node already shows the bound channels' new data
+  protected readingBindings = false;
+
+  render(): RenderNode {
     const data = this.data;
     // Create the actual element
-    const element = document.createElement(data.tag);
+    const element = this.renderer.createElement(data.tag);
+    this.applyOptions(element);
+
     const children = data.children;
+    this.mountedChildren = [...children];
     for (const child of children) {
       // Mount all the children onto the created element
-      child.mount(element);
+      child.mount(element, null, this.renderer);
     }
+    this.applyProperties(element);
     return element;
   }
 
-  updateIndex(node: Node, index: number, newData: Element | Fragment): void {
-    if (index === node.childNodes.length) {
+  protected hydrateNode(parent: RenderNode, node: RenderNode | null): void {
+    const data = this.data;
+    if (
+      node == null ||
+      this.renderer.tagName(node) !== data.tag.toLowerCase()
+    ) {
+      throw new HydrationMismatchError(
+        `Expected <${data.tag}> but found ${describeNode(this.renderer, node)}`
+      );
+    }
+
+    // Properties and event listeners do not exist on the server
+    this.applyOptions(node);
+
+    // Bind each child to the existing child nodes in order
+    this.mountedChildren = [...data.children];
+    let childNode = this.renderer.firstChild(node);
+    for (const child of data.children) {
+      child.hydrate(node, childNode, this.renderer);
+      childNode = this.renderer.nextSibling(child.node);
+    }
+    if (childNode != null) {
+      throw new HydrationMismatchError(
+        `Expected no more children in <${data.tag}> but found ${describeNode(
+          this.renderer,
+          childNode
+        )}`
+      );
+    }
+    this.applyProperties(node);
+
+    this.attach(node);
+  }
+
+  // Apply the current attributes and styles and attach the event listeners
+  applyOptions(node: RenderNode): void {
+    for (const [name, value] of Object.entries(this.options.attributes ?? {})) {
+      this.setAttribute(node, name, read(value));
+    }
+    for (const [name, value] of Object.entries(this.options.style ?? {})) {
+      this.setStyle(node, name, read(value));
+    }
+    for (const [type, listener] of Object.entries(this.options.events ?? {})) {
+      this.renderer.addEventListener(node, type, listener);
+    }
+    for (const [type, listener] of Object.entries(this.bindingListeners)) {
+      this.renderer.addEventListener(node, type, listener);
+    }
+  }
+
+  // Apply the current properties and bound form state. This happens once the
+  // children are mounted, since a select's value (or an option's selected
+  // state) only takes effect once its options are in it.
+  applyProperties(node: RenderNode): void {
+    for (const [name, value] of Object.entries(this.options.properties ?? {})) {
+      this.setProperty(node, name, read(value));
+    }
+    for (const [name, value] of Object.entries(this.options.bindings ?? {})) {
+      this.setProperty(node, name, value.data);
+    }
+  }
+
+  // Set the bound channels' data from the node's form state. A select's
+  // selection also changes the options in it, so those are read as well.
+  protected readBindings(descendants = false): void {
+    if (this.node == null) return;
+    this.readingBindings = true;
+    try {
+      for (const [name, channel] of Object.entries(
+        this.options.bindings ?? {}
+      ) as [string, DataChannel<any>][]) {
+        let value = this.renderer.getProperty(this.node, name);
+        if (typeof channel.data === "number") {
+          value = parseFloat(value);
+          // Leave the channel alone until the input is a number
+          if (isNaN(value)) continue;
+        }
+        if (channel.data !== value) {
+          channel.data = value;
+        }
+      }
+    } finally {
+      this.readingBindings = false;
+    }
+
+    if (descendants) {
+      for (const child of this.mountedChildren) {
+        if (child instanceof Element) {
+          child.readBindings(true);
+        }
+      }
+    }
+  }
+
+  setAttribute(node: RenderNode, name: string, value: AttributeValue): void {
+    this.renderer.setAttribute(
+      node,
+      name,
+      // Remove empty attributes
+      value == null || value === false ? null : value === true ? "" : `${value}`
+    );
+  }
+
+  setProperty(node: RenderNode, name: string, value: any): void {
+    this.renderer.setProperty(node, name, value);
+  }
+
+  setStyle(node: RenderNode, name: string, value: string | null): void {
+    this.renderer.setStyle(node, name, value);
+  }
+
+  updateIndex(
+    node: RenderNode,
+    index: number,
+    newData: Element | Fragment
+  ): void {
+    if (index === this.renderer.childCount(node)) {
       // Append new node
-      node.appendChild(newData.render());
+      newData.mount(node, null, this.renderer);
+      this.mountedChildren.push(newData);
     } else {
       // Replace existing node
-      node.replaceChild(newData.render(), node.childNodes[index]);
+      const previousNode = this.renderer.childAt(node, index);
+      const previous = this.mountedChildren[index];
+      if (previous === newData) {
+        // Unmount the child before rerendering it in the same place
+        newData.unmount();
+        newData.mount(node, this.renderer.childAt(node, index), this.renderer);
+      } else {
+        newData.mount(node, previousNode, this.renderer);
+        if (previous != null) {
+          // The replaced child is no longer mounted
+          previous.unmount();
+        } else {
+          // Remove the placeholder
+          this.renderer.remove(previousNode);
+        }
+      }
+      this.mountedChildren[index] = newData;
     }
   }
 
-  update(node: Node, children: (Element | Fragment)[]): void {
-    // Remove the children, if present
-    while (node.firstChild) {
-      node.removeChild(node.firstChild);
+  updateOperation(node: RenderNode, operation: ListOperation): void {
+    if (operation.operation === "Insert") {
+      // Reserve the positions with empty placeholders that are replaced when
+      // the inserted indices are updated
+      const before = this.renderer.childAt(node, operation.index);
+      for (let i = 0; i < (operation.count ?? 1); i++) {
+        this.renderer.insert(node, this.renderer.createPlaceholder(), before);
+      }
+    } else if (operation.operation === "Delete") {
+      // Remove the existing nodes by unmounting their channels (or remove the
+      // placeholders directly if there is no channel)
+      for (let i = 0; i < (operation.count ?? 1); i++) {
+        const child = this.mountedChildren[operation.index + i];
+        if (child != null) {
+          child.unmount();
+        } else {
+          this.renderer.remove(this.renderer.childAt(node, operation.index));
+        }
+      }
+    } else {
+      // Move the existing node without rerendering it
+      const child = this.renderer.childAt(node, operation.from);
+      this.renderer.remove(child);
+      this.renderer.insert(
+        node,
+        child,
+        this.renderer.childAt(node, operation.to)
+      );
     }
+    // Keep the mounted children in the same order as the child nodes
+    applyListOperation(this.mountedChildren, operation);
+  }
 
-    // Rerender the children
-    for (const child of children) {
-      child.mount(node);
+  update(node: RenderNode, children: (Element | Fragment)[]): void {
+    // Match the new children to the mounted children by key (or by identity if
+    // they have no key), and move, remove and insert nodes to match
+    const childKey = (child: Element | Fragment) => child.key ?? child;
+    const { operations, indices } = keyedChanges(
+      this.mountedChildren.map(childKey),
+      children.map(childKey)
+    );
+    for (const operation of operations) {
+      this.updateOperation(node, operation);
+    }
+
+    // Render just the inserted children
+    for (const index of indices) {
+      this.updateIndex(node, index as number, children[index as number]);
+    }
+  }
+
+  // Unmount the element along with all its mounted children
+  unmount() {
+    if (this.node == null) return;
+
+    for (const child of this.mountedChildren) {
+      child?.unmount();
+    }
+    // Detach the event listeners
+    for (const [type, listener] of Object.entries(this.options.events ?? {})) {
+      this.renderer.removeEventListener(this.node, type, listener);
+    }
+    for (const [type, listener] of Object.entries(this.bindingListeners)) {
+      this.renderer.removeEventListener(this.node, type, listener);
+    }
+    super.unmount();
+  }
+
+  // Dispose the element along with all its mounted children
+  dispose() {
+    // Stop watching attribute, property and style channels
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+
+    super.dispose();
+    for (const child of this.mountedChildren) {
+      child?.dispose();
     }
+    this.mountedChildren = [];
   }
 
-  constructor(readonly tag: string, children: Channel<(Element | Fragment)[]>) {
+  get key(): Key | undefined {
+    return this.options.key;
+  }
+
+  constructor(
+    readonly tag: string,
+    children: Channel<(Element | Fragment)[]>,
+    readonly options: ElementOptions = {}
+  ) {
     super(
       [children],
       (children) => {
@@ -120,6 +620,7 @@ export class Element extends BaseDOM<
         return {
           tag,
           children,
+          options,
         };
       },
       [(index) => index],
@@ -133,8 +634,70 @@ export class Element extends BaseDOM<
           );
         }
       },
-      // Eagerly receive updates to reflect DOM changes immediately
-      true
+      (_, __, operation) => {
+        if (this.node != null) {
+          // Shift the existing children around to match the list's structure
+          this.updateOperation(this.node, operation);
+        }
+      },
+      // Updates only become eager once the node is mounted
+      false
+    );
+
+    // Update each attribute, property and style individually when its channel
+    // changes
+    this.watch(options.attributes, (node, name, value) =>
+      this.setAttribute(node, name, value)
+    );
+    this.watch(options.properties, (node, name, value) =>
+      this.setProperty(node, name, value)
+    );
+    this.watch(options.style, (node, name, value) =>
+      this.setStyle(node, name, value)
     );
+
+    // Update bound properties when their channel changes, except when the
+    // change was read from the node itself (setting it again would be a
+    // feedback loop that could reformat the input or move the cursor)
+    this.watch(
+      options.bindings as Record<string, Channel<any>> | undefined,
+      (node, name, value) => {
+        if (!this.readingBindings) {
+          this.setProperty(node, name, value);
+        }
+      }
+    );
+
+    // Read bound form state back whenever the user changes it
+    const isSelect = tag.toLowerCase() === "select";
+    for (const name of Object.keys(options.bindings ?? {})) {
+      if (name === "value" && !isSelect) {
+        this.bindingListeners.input = () => this.readBindings();
+      } else if (name !== "selected") {
+        this.bindingListeners.change = () => this.readBindings();
+      }
+    }
+    if (isSelect) {
+      this.bindingListeners.change = () => this.readBindings(true);
+    }
+  }
+
+  // Subscribe to the channels in a record of values, applying their new values
+  // to the node whenever they change
+  protected watch<T>(
+    values: Record<string, MaybeChannel<T>> | undefined,
+    apply: (node: RenderNode, name: string, value: T) => void
+  ) {
+    for (const [name, value] of Object.entries(values ?? {})) {
+      if (value instanceof Channel) {
+        this.unsubscribers.push(
+          value.subscribe((data) => {
+            if (this.node != null) {
+              apply(this.node, name, data);
+            }
+          })
+        );
+      }
+    }
   }
 }
@@ -1,10 +1,23 @@
 import {
+  applyListOperation,
+  changes,
+  dictionaryChanges,
   indexAll,
   indexHas,
   indexNone,
+  IndexSpecifier,
   indices,
+  Key,
+  keyedChanges,
+  KeySet,
+  ListOperation,
   mergeIndexSpecifiers,
+  mergeIndexSpecifiersInto,
+  narrowIndex,
+  pathIndex,
+  shiftIndex,
 } from "./indexSpecifier";
+import { range } from "./util";
 
 test("index has", () => {
   // indexNone has nothing
@@ -63,3 +76,366 @@ test("merge index specifiers", () => {
     indices(["a", 2, 3])
   );
 });
+
+test("shift index", () => {
+  // Inserting shifts everything at or after the insertion point
+  expect(shiftIndex(1, { operation: "Insert", index: 2 })).toEqual(1);
+  expect(shiftIndex(2, { operation: "Insert", index: 2 })).toEqual(3);
+  expect(shiftIndex(3, { operation: "Insert", index: 2 })).toEqual(4);
+
+  // Deleting removes the index and shifts everything after it
+  expect(shiftIndex(1, { operation: "Delete", index: 2 })).toEqual(1);
+  expect(shiftIndex(2, { operation: "Delete", index: 2 })).toBeNull();
+  expect(shiftIndex(3, { operation: "Delete", index: 2 })).toEqual(2);
+
+  // Runs of items shift by their count
+  expect(shiftIndex(2, { operation: "Insert", index: 2, count: 3 })).toEqual(5);
+  expect(shiftIndex(4, { operation: "Delete", index: 2, count: 3 })).toBeNull();
+  expect(shiftIndex(5, { operation: "Delete", index: 2, count: 3 })).toEqual(2);
+
+  // Moving relocates the moved index and shifts the ones in between
+  expect(shiftIndex(0, { operation: "Move", from: 0, to: 2 })).toEqual(2);
+  expect(shiftIndex(1, { operation: "Move", from: 0, to: 2 })).toEqual(0);
+  expect(shiftIndex(2, { operation: "Move", from: 0, to: 2 })).toEqual(1);
+  expect(shiftIndex(3, { operation: "Move", from: 0, to: 2 })).toEqual(3);
+  expect(shiftIndex(0, { operation: "Move", from: 2, to: 0 })).toEqual(1);
+
+  // Non-numeric keys are unaffected
+  expect(shiftIndex("a", { operation: "Insert", index: 0 })).toEqual("a");
+});
+
+test("apply list operation", () => {
+  const list = [1, 2, 3];
+  applyListOperation(list, { operation: "Insert", index: 1 });
+  expect(list).toEqual([1, undefined, 2, 3]);
+  applyListOperation(list, { operation: "Delete", index: 0 });
+  expect(list).toEqual([undefined, 2, 3]);
+  applyListOperation(list, { operation: "Move", from: 2, to: 0 });
+  expect(list).toEqual([3, undefined, 2]);
+  applyListOperation(list, { operation: "Insert", index: 3, count: 2 });
+  expect(list).toEqual([3, undefined, 2, undefined, undefined]);
+  applyListOperation(list, { operation: "Delete", index: 0, count: 3 });
+  expect(list).toEqual([undefined, undefined]);
+});
+
+test("merge changes", () => {
+  const insert = { operation: "Insert", index: 0 } as const;
+  const remove = { operation: "Delete", index: 1 } as const;
+
+  // Changes merged with nothing are returned as is
+  expect(mergeIndexSpecifiers(indexNone, changes([insert], [0]))).toEqual(
+    changes([insert], [0])
+  );
+  // Changes merged with everything is everything
+  expect(mergeIndexSpecifiers(changes([insert], [0]), indexAll)).toEqual(
+    indexAll
+  );
+  // Changes without operations are just indices
+  expect(mergeIndexSpecifiers(indexNone, changes([], [1]))).toEqual(
+    indices([1])
+  );
+  expect(mergeIndexSpecifiers(changes([], []), indexNone)).toEqual(indexNone);
+
+  // Base indices are shifted through new operations
+  expect(mergeIndexSpecifiers(indices([0, 2]), changes([insert], [0]))).toEqual(
+    changes([insert], [1, 3, 0])
+  );
+  // Deleted base indices are dropped
+  expect(mergeIndexSpecifiers(indices([1, 2]), changes([remove], []))).toEqual(
+    changes([remove], [1])
+  );
+  // New indices are not shifted by base operations
+  expect(mergeIndexSpecifiers(changes([insert], [0]), indices([0, 1]))).toEqual(
+    changes([insert], [0, 1])
+  );
+  // Operations are concatenated in order
+  expect(
+    mergeIndexSpecifiers(changes([insert], [0]), changes([remove], []))
+  ).toEqual(changes([insert, remove], [0]));
+});
+
+describe("keyed changes", () => {
+  // Applies keyed changes to the previous list and checks the result
+  function expectKeyedChanges(previous: string[], next: string[]) {
+    const { operations, indices } = keyedChanges(previous, next);
+    const list: (string | undefined)[] = [...previous];
+    for (const operation of operations) {
+      applyListOperation(list, operation);
+    }
+    // Only the inserted items are left to fill in
+    expect(list.filter((item) => item == null)).toHaveLength(indices.size);
+    for (const index of indices) {
+      expect(list[index as number]).toBeUndefined();
+      list[index as number] = next[index as number];
+    }
+    expect(list).toEqual(next);
+    return operations;
+  }
+
+  test("no changes", () => {
+    expect(expectKeyedChanges(["a", "b", "c"], ["a", "b", "c"])).toEqual([]);
+    expect(expectKeyedChanges([], [])).toEqual([]);
+  });
+
+  test("inserts and deletes", () => {
+    expectKeyedChanges([], ["a", "b"]);
+    expectKeyedChanges(["a", "b"], []);
+    expectKeyedChanges(["a", "c"], ["a", "b", "c", "d"]);
+    expectKeyedChanges(["a", "b", "c", "d"], ["b", "d"]);
+    expectKeyedChanges(["a", "b", "c"], ["x", "b", "y"]);
+  });
+
+  test("moves", () => {
+    // Moving the first item to the end is a single move
+    expect(
+      expectKeyedChanges(["a", "b", "c", "d"], ["b", "c", "d", "a"])
+    ).toEqual([{ operation: "Move", from: 0, to: 3 }]);
+    // Moving the last item to the start is a single move
+    expect(
+      expectKeyedChanges(["a", "b", "c", "d"], ["d", "a", "b", "c"])
+    ).toEqual([{ operation: "Move", from: 3, to: 0 }]);
+    // Swapping two items takes two moves
+    expect(
+      expectKeyedChanges(["a", "b", "c", "d"], ["a", "d", "c", "b"])
+    ).toHaveLength(2);
+    expectKeyedChanges(["a", "b", "c", "d", "e"], ["e", "d", "c", "b", "a"]);
+  });
+
+  test("moves, inserts and deletes", () => {
+    expectKeyedChanges(["a", "b", "c", "d", "e"], ["x", "e", "c", "y", "a"]);
+    expectKeyedChanges(["a", "b", "c"], ["c", "z", "b"]);
+  });
+
+  test("runs of inserts and deletes are counted", () => {
+    expect(
+      expectKeyedChanges(["a", "b", "c", "d", "e"], ["a", "x", "y", "e"])
+    ).toEqual([
+      { operation: "Delete", index: 1, count: 3 },
+      { operation: "Insert", index: 1, count: 2 },
+    ]);
+  });
+
+  test("random changes", () => {
+    // A small deterministic pseudorandom number generator
+    let seed = 1;
+    const random = (n: number) => {
+      seed = (seed * 16807) % 2147483647;
+      return seed % n;
+    };
+
+    for (let step = 0; step < 200; step++) {
+      const keys = range(0, 30).map((i) => `${i}`);
+      const previous = keys.filter(() => random(3) > 0);
+      const next = keys.filter(() => random(3) > 0);
+      // Shuffle the next keys
+      for (let i = next.length - 1; i > 0; i--) {
+        const j = random(i + 1);
+        [next[i], next[j]] = [next[j], next[i]];
+      }
+      expectKeyedChanges(previous, next);
+    }
+  });
+});
+
+describe("paths", () => {
+  // items[3].price changed
+  const price = pathIndex([3, "price"]);
+
+  test("path index", () => {
+    expect(price).toEqual({
+      indexType: "Indices",
+      indices: new KeySet([3]),
+      paths: new Map([[3, indices(["price"])]]),
+    });
+    // Re-rooting an existing specifier under a path
+    expect(pathIndex(["items"], indices([1]))).toEqual({
+      indexType: "Indices",
+      indices: new KeySet(["items"]),
+      paths: new Map([["items", indices([1])]]),
+    });
+    expect(pathIndex([1], indexAll)).toEqual(indices([1]));
+    expect(pathIndex([1], indexNone)).toEqual(indexNone);
+  });
+
+  test("narrow", () => {
+    expect(narrowIndex(price, [3])).toEqual(indices(["price"]));
+    expect(narrowIndex(price, [3, "price"])).toEqual(indexAll);
+    expect(narrowIndex(price, [3, "name"])).toEqual(indexNone);
+    expect(narrowIndex(price, [2])).toEqual(indexNone);
+    // Keys without paths changed entirely
+    expect(narrowIndex(indices([3]), [3, "name"])).toEqual(indexAll);
+    // Structural changes may put a different item at the key
+    expect(
+      narrowIndex(changes([{ operation: "Insert", index: 0 }], [0]), [3])
+    ).toEqual(indexAll);
+  });
+
+  test("index has path", () => {
+    expect(indexHas(price, 3)).toBeTruthy();
+    expect(indexHas(price, [3, "price"])).toBeTruthy();
+    expect(indexHas(price, [3, "price", "currency"])).toBeTruthy();
+    expect(indexHas(price, [3, "name"])).toBeFalsy();
+    expect(indexHas(indexAll, [3, "name"])).toBeTruthy();
+  });
+
+  test("merge", () => {
+    // Paths at the same key are merged
+    expect(mergeIndexSpecifiers(price, pathIndex([3, "name"]))).toEqual({
+      indexType: "Indices",
+      indices: new KeySet([3]),
+      paths: new Map([[3, indices(["price", "name"])]]),
+    });
+    // Paths at different keys are kept
+    expect(mergeIndexSpecifiers(price, pathIndex([1, "name"]))).toEqual({
+      indexType: "Indices",
+      indices: new KeySet([3, 1]),
+      paths: new Map([
+        [3, indices(["price"])],
+        [1, indices(["name"])],
+      ]),
+    });
+    // A key that changed entirely has no path
+    expect(mergeIndexSpecifiers(price, indices([3]))).toEqual(indices([3]));
+    // Paths are dropped with structural changes
+    expect(
+      mergeIndexSpecifiers(
+        price,
+        changes([{ operation: "Insert", index: 0 }], [0])
+      )
+    ).toEqual(changes([{ operation: "Insert", index: 0 }], [4, 0]));
+  });
+});
+
+describe("key sets", () => {
+  test("ranges", () => {
+    const keySet = KeySet.range(5, 100000);
+    expect(keySet.size).toEqual(99995);
+    expect(keySet.has(4)).toBeFalsy();
+    expect(keySet.has(5)).toBeTruthy();
+    expect(keySet.has(99999)).toBeTruthy();
+    expect(keySet.has(100000)).toBeFalsy();
+    expect(keySet.has("5")).toBeFalsy();
+
+    // Keys within the range are not added again
+    keySet.add(7).add("a").add(100000);
+    expect(keySet.size).toEqual(99997);
+    // Ranges that overlap or touch are joined
+    keySet.addRange(100000, 100100).addRange(0, 5);
+    expect(keySet.size).toEqual(100101);
+    expect([...keySet].slice(0, 3)).toEqual(["a", 0, 1]);
+
+    // Short ranges are stored as individual keys
+    expect(KeySet.range(2, 5)).toEqual(new KeySet([2, 3, 4]));
+
+    // Deleting a key splits its range
+    expect(keySet.delete(50000)).toBeTruthy();
+    expect(keySet.delete(50000)).toBeFalsy();
+    expect(keySet.has(49999)).toBeTruthy();
+    expect(keySet.has(50001)).toBeTruthy();
+    expect(keySet.size).toEqual(100100);
+  });
+
+  test("shift", () => {
+    const keySet = KeySet.range(10, 40).add(5).add(50).add("a");
+    keySet.shift([
+      { operation: "Insert", index: 20 },
+      { operation: "Insert", index: 21 },
+      { operation: "Delete", index: 0 },
+      { operation: "Delete", index: 0 },
+    ]);
+    // The range is split by the inserts, and everything moves down two
+    expect(keySet.has(17)).toBeTruthy();
+    expect(keySet.has(18)).toBeFalsy();
+    expect(keySet.has(19)).toBeFalsy();
+    expect(keySet.has(20)).toBeTruthy();
+    expect([...keySet]).toEqual([
+      3,
+      50,
+      "a",
+      ...range(8, 18),
+      ...range(20, 40),
+    ]);
+  });
+
+  test("random shifts", () => {
+    // A small deterministic pseudorandom number generator
+    let seed = 1;
+    const random = (n: number) => {
+      seed = (seed * 16807) % 2147483647;
+      return seed % n;
+    };
+
+    for (let step = 0; step < 200; step++) {
+      const start = random(40);
+      const keySet = KeySet.range(start, start + 20 + random(40)).add(
+        random(100)
+      );
+      const keys = [...keySet];
+      const operations: ListOperation[] = range(0, random(30)).map(() => {
+        const action = random(3);
+        const count = 1 + random(3);
+        if (action === 0) {
+          return { operation: "Insert", index: random(100), count };
+        }
+        if (action === 1) {
+          return { operation: "Delete", index: random(100), count };
+        }
+        return { operation: "Move", from: random(100), to: random(100) };
+      });
+
+      // Shifting the set matches shifting each key
+      keySet.shift(operations);
+      const expected = keys.flatMap((key) => {
+        let shifted: Key | null = key;
+        for (const operation of operations) {
+          if (shifted != null) shifted = shiftIndex(shifted, operation);
+        }
+        return shifted == null ? [] : [shifted];
+      });
+      expect([...keySet].sort()).toEqual(expected.sort());
+      expect(keySet.size).toEqual(expected.length);
+    }
+  });
+
+  test("merge into", () => {
+    const insert = indices([1]);
+    // Merging into none copies the new specifier
+    const merged = mergeIndexSpecifiersInto(indexNone, insert);
+    expect(merged).toEqual(insert);
+    expect(merged).not.toBe(insert);
+
+    // The base specifier is reused, and the new one is left alone
+    const base: IndexSpecifier = indices([2]);
+    expect(mergeIndexSpecifiersInto(base, insert)).toBe(base);
+    expect(base).toEqual(indices([2, 1]));
+    expect(insert).toEqual(indices([1]));
+
+    // Merging leaves the base specifier alone
+    expect(mergeIndexSpecifiers(insert, indices([3]))).toEqual(indices([1, 3]));
+    expect(insert).toEqual(indices([1]));
+  });
+});
+
+test("dictionary changes", () => {
+  const added = dictionaryChanges(["a"], []);
+  const removed = dictionaryChanges([], ["a"]);
+  expect(added).toEqual({
+    indexType: "Indices",
+    indices: new KeySet(["a"]),
+    added: new KeySet(["a"]),
+  });
+
+  // A key added and then removed is neither
+  expect(mergeIndexSpecifiers(added, removed)).toEqual(indices(["a"]));
+  // A key removed and added again is both
+  expect(mergeIndexSpecifiers(removed, added)).toEqual({
+    ...indices(["a"]),
+    added: new KeySet(["a"]),
+    removed: new KeySet(["a"]),
+  });
+  // Changed values are kept apart from added keys
+  expect(mergeIndexSpecifiers(indices(["b"]), added)).toEqual({
+    ...indices(["b", "a"]),
+    added: new KeySet(["a"]),
+  });
+});
@@ -3,13 +3,20 @@
  * {@link Key}s, where keys are anything that can be used to index JavaScript
  * objects (numbers, strings, and symbols).
  *
- * There are three types of specifiers:
+ * There are four types of specifiers:
  *
  *  - All: a full collection
  *  - None: an empty collection
- *  - Indices: A collection of specified keys
+ *  - Indices: A collection of specified keys, optionally with paths describing
+ *    what changed deeper inside each key (a tree of keys)
+ *  - Changes: A log of structural list operations (inserts, deletes and moves)
+ *    followed by a collection of specified keys
+ *
+ * The specified keys are stored in a {@link KeySet}, which keeps long runs of
+ * list positions as compact ranges so that specifiers stay cheap to build,
+ * merge and query on large lists.
  */
-export type IndexSpecifier = All | None | Indices;
+export type IndexSpecifier = All | None | Indices | Changes;
 
 /**
  * A key that can be used to index a JavaScript object
@@ -31,11 +38,334 @@ export interface None {
 }
 
 /**
- * An {@link IndexSpecifier} collection of specified keys
+ * An {@link IndexSpecifier} collection of specified keys. For deep data
+ * structures, the paths map each key to an index specifier describing what
+ * changed inside the data at that key (for instance, that only `price` changed
+ * in the item at index 3). Keys without a path changed entirely, so consumers
+ * that ignore paths still see every change.
+ *
+ * For dictionaries, the specified keys may also include keys that were added
+ * (which were not in the dictionary before) or removed (which were in the
+ * dictionary before). A key that was removed and added again is both. Other
+ * specified keys had their values changed.
  */
 export interface Indices {
   indexType: "Indices";
-  indices: Key[];
+  indices: KeySet;
+  paths?: Map<Key, IndexSpecifier>;
+  added?: KeySet;
+  removed?: KeySet;
+}
+
+/**
+ * An {@link IndexSpecifier} collection describing structural changes to a list.
+ * The operations are applied in order, after which the specified keys (which
+ * are relative to the list after all operations are applied) are dirty. Keys
+ * that were inserted are always included in the specified keys.
+ */
+export interface Changes {
+  indexType: "Changes";
+  operations: ListOperation[];
+  indices: KeySet;
+}
+
+/**
+ * A structural operation on a list
+ *
+ *  - Insert: new items (one unless a count is given) are inserted before the
+ *    specified index
+ *  - Delete: the items (one unless a count is given) starting at the specified
+ *    index are removed
+ *  - Move: the item at the from index is removed and then reinserted before
+ *    the to index
+ */
+export type ListOperation =
+  | { operation: "Insert"; index: number; count?: number }
+  | { operation: "Delete"; index: number; count?: number }
+  | { operation: "Move"; from: number; to: number };
+
+/**
+ * Runs of consecutive integer keys shorter than this are stored individually
+ */
+const minimumRangeLength = 16;
+
+/**
+ * A set of keys. Integer keys in long consecutive runs (such as the positions
+ * of many inserted items) are stored compactly as ranges like `[5, 100000)`,
+ * and every other key is stored individually in a `Set`, so checking for,
+ * adding and shifting keys stays fast even on large lists. Keys stored
+ * individually iterate first, in the order they were added, followed by the
+ * ranges in ascending order.
+ */
+export class KeySet implements Iterable<Key> {
+  // The keys stored individually, none of which fall within a range
+  protected keys: Set<Key>;
+
+  // The ranges of integer keys, as [start, end) pairs that are sorted and
+  // neither overlap nor touch
+  protected ranges: [number, number][] = [];
+
+  /**
+   * @param keys The keys to start with
+   */
+  constructor(keys: Iterable<Key> = []) {
+    this.keys = new Set(keys);
+  }
+
+  /**
+   * Creates a set of a range of integer keys
+   * @param start The first key
+   * @param end The key after the last key
+   * @returns The set of keys
+   */
+  static range(start: number, end: number): KeySet {
+    return new KeySet().addRange(start, end);
+  }
+
+  /**
+   * The number of keys in the set
+   */
+  get size(): number {
+    let size = this.keys.size;
+    for (const [start, end] of this.ranges) {
+      size += end - start;
+    }
+    return size;
+  }
+
+  /**
+   * Returns whether the set has a key
+   * @param key The key
+   * @returns Whether the key is in the set
+   */
+  has(key: Key): boolean {
+    return this.keys.has(key) || this.rangeOf(key) !== -1;
+  }
+
+  /**
+   * Adds a key to the set
+   * @param key The key
+   * @returns The set
+   */
+  add(key: Key): this {
+    if (this.rangeOf(key) === -1) this.keys.add(key);
+    return this;
+  }
+
+  /**
+   * Removes a key from the set
+   * @param key The key
+   * @returns Whether the key was in the set
+   */
+  delete(key: Key): boolean {
+    if (this.keys.delete(key)) return true;
+    const position = this.rangeOf(key);
+    if (position === -1) return false;
+
+    // Split the range around the key
+    const [start, end] = this.ranges[position];
+    this.ranges.splice(position, 1);
+    this.addRange(start, key as number).addRange((key as number) + 1, end);
+    return true;
+  }
+
+  /**
+   * Adds a range of integer keys to the set. Short ranges are stored as
+   * individual keys.
+   * @param start The first key
+   * @param end The key after the last key
+   * @returns The set
+   */
+  addRange(start: number, end: number): this {
+    if (end - start < minimumRangeLength) {
+      for (let key = start; key < end; key++) this.add(key);
+      return this;
+    }
+
+    // Drop individual keys that the range covers, checking whichever is fewer
+    if (end - start < this.keys.size) {
+      for (let key = start; key < end; key++) this.keys.delete(key);
+    } else {
+      for (const key of this.keys) {
+        if (typeof key === "number" && key >= start && key < end) {
+          this.keys.delete(key);
+        }
+      }
+    }
+
+    // Join the range with any ranges it overlaps or touches
+    const ranges: [number, number][] = [];
+    for (const range of this.ranges) {
+      if (range[1] < start || range[0] > end) {
+        ranges.push(range);
+      } else {
+        start = Math.min(start, range[0]);
+        end = Math.max(end, range[1]);
+      }
+    }
+    ranges.push([start, end]);
+    this.ranges = ranges.sort(([start1], [start2]) => start1 - start2);
+    return this;
+  }
+
+  /**
+   * Adds all the keys of another set to this one
+   * @param keySet The other set
+   * @returns This set
+   */
+  addAll(keySet: KeySet): this {
+    for (const key of keySet.keys) this.add(key);
+    for (const [start, end] of keySet.ranges) this.addRange(start, end);
+    return this;
+  }
+
+  /**
+   * Shifts the keys as if items were inserted into a list: keys at or after
+   * the insertion point move up
+   * @param index The index the items are inserted before
+   * @param count The number of items inserted
+   */
+  insertAt(index: number, count: number = 1) {
+    const keys = new Set<Key>();
+    for (const key of this.keys) {
+      keys.add(typeof key === "number" && key >= index ? key + count : key);
+    }
+    this.keys = keys;
+
+    const ranges: [number, number][] = [];
+    for (const [start, end] of this.ranges) {
+      if (start >= index) {
+        ranges.push([start + count, end + count]);
+      } else if (end > index) {
+        // The insertion splits the range in two
+        ranges.push([start, index], [index + count, end + count]);
+      } else {
+        ranges.push([start, end]);
+      }
+    }
+    this.ranges = ranges;
+  }
+
+  /**
+   * Shifts the keys as if items were deleted from a list: keys of the deleted
+   * items are removed and keys after them move down
+   * @param index The index of the first deleted item
+   * @param count The number of items deleted
+   */
+  deleteAt(index: number, count: number = 1) {
+    const deletedEnd = index + count;
+    const keys = new Set<Key>();
+    for (const key of this.keys) {
+      if (typeof key !== "number" || key < index) {
+        keys.add(key);
+      } else if (key >= deletedEnd) {
+        keys.add(key - count);
+      }
+    }
+    this.keys = keys;
+
+    const ranges: [number, number][] = [];
+    for (const [start, end] of this.ranges) {
+      // Cut the deleted items out of the range and shift what's after them
+      const cut = (key: number) =>
+        key <= index ? key : key < deletedEnd ? index : key - count;
+      const range: [number, number] = [cut(start), cut(end)];
+      if (range[0] === range[1]) continue;
+      const previous = ranges[ranges.length - 1];
+      if (previous != null && previous[1] === range[0]) {
+        // Ranges on either side of the deleted items now touch
+        previous[1] = range[1];
+      } else {
+        ranges.push(range);
+      }
+    }
+    this.ranges = ranges;
+  }
+
+  /**
+   * Shifts the keys through structural list operations, so they describe the
+   * same items after the operations are applied. Keys of deleted items are
+   * removed. A moved item's key goes to its destination.
+   * @param operations The structural list operations, in order
+   */
+  shift(operations: ListOperation[]) {
+    let i = 0;
+    while (i < operations.length) {
+      const operation = operations[i++];
+      if (operation.operation === "Insert") {
+        // Items inserted one after another shift the keys together
+        let count = operation.count ?? 1;
+        while (i < operations.length) {
+          const next = operations[i];
+          if (
+            next.operation !== "Insert" ||
+            next.index !== operation.index + count
+          ) {
+            break;
+          }
+          count += next.count ?? 1;
+          i++;
+        }
+        this.insertAt(operation.index, count);
+      } else if (operation.operation === "Delete") {
+        // As do items deleted one after another from the same position
+        let count = operation.count ?? 1;
+        while (i < operations.length) {
+          const next = operations[i];
+          if (next.operation !== "Delete" || next.index !== operation.index) {
+            break;
+          }
+          count += next.count ?? 1;
+          i++;
+        }
+        this.deleteAt(operation.index, count);
+      } else {
+        const moved = this.has(operation.from);
+        this.deleteAt(operation.from);
+        this.insertAt(operation.to);
+        if (moved) this.add(operation.to);
+      }
+    }
+  }
+
+  /**
+   * Copies the set
+   * @returns A new set with the same keys
+   */
+  clone(): KeySet {
+    const keySet = new KeySet(this.keys);
+    keySet.ranges = this.ranges.map(([start, end]) => [start, end]);
+    return keySet;
+  }
+
+  *[Symbol.iterator](): Iterator<Key> {
+    yield* this.keys;
+    for (const [start, end] of this.ranges) {
+      for (let key = start; key < end; key++) yield key;
+    }
+  }
+
+  /**
+   * Finds the range containing a key
+   * @param key The key
+   * @returns The position of the range in the ranges, or -1 if no range
+   * contains the key
+   */
+  protected rangeOf(key: Key): number {
+    if (typeof key !== "number") return -1;
+    // Binary search for the last range starting at or before the key
+    let low = 0;
+    let high = this.ranges.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.ranges[middle][0] <= key) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low > 0 && key < this.ranges[low - 1][1] ? low - 1 : -1;
+  }
 }
 
 /**
@@ -54,11 +384,335 @@ export const indexNone: None = { indexType: "None" };
  * @param indices The specified keys
  * @returns The {@link Indices} index specifier
  */
-export function indices(indices: Key[]): Indices {
+export function indices(indices: Key[] | KeySet): Indices {
   return {
     indexType: "Indices",
-    indices,
+    indices: indices instanceof KeySet ? indices : new KeySet(indices),
+  };
+}
+
+/**
+ * A quick utility method to get an {@link Indices} index specifier for keys
+ * that were added to and removed from a dictionary
+ * @param added The keys that were added
+ * @param removed The keys that were removed
+ * @returns The {@link Indices} index specifier
+ */
+export function dictionaryChanges(added: Key[], removed: Key[]): Indices {
+  const result = indices([...added, ...removed]);
+  if (added.length > 0) result.added = new KeySet(added);
+  if (removed.length > 0) result.removed = new KeySet(removed);
+  return result;
+}
+
+/**
+ * Creates an index specifier for a change deep inside a data structure
+ * (re-rooting the change under the path)
+ * @param path The keys leading to the data that changed, outermost first
+ * @param indexSpecifier What changed in the data at the end of the path
+ * @returns The index specifier of the change, relative to the outermost data
+ */
+export function pathIndex(
+  path: Key[],
+  indexSpecifier: IndexSpecifier = indexAll
+): IndexSpecifier {
+  let result = normalizeIndexSpecifier(indexSpecifier);
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (result.indexType === "None") return indexNone;
+    result =
+      result.indexType === "All"
+        ? indices([path[i]])
+        : { ...indices([path[i]]), paths: new Map([[path[i], result]]) };
+  }
+  return result;
+}
+
+/**
+ * Narrows an index specifier to what changed inside the data at a path
+ * @param indexSpecifier The index specifier, relative to the outermost data
+ * @param path The keys leading to the data, outermost first
+ * @returns The index specifier relative to the data at the end of the path
+ */
+export function narrowIndex(
+  indexSpecifier: IndexSpecifier,
+  path: Key[]
+): IndexSpecifier {
+  let result = indexSpecifier;
+  for (const key of path) {
+    if (result.indexType === "All" || result.indexType === "None") {
+      return result;
+    }
+    if (result.indexType === "Changes" && result.operations.length > 0) {
+      // The data at the key may now be a different item entirely
+      return indexAll;
+    }
+    if (!result.indices.has(key)) return indexNone;
+    result =
+      (result.indexType === "Indices" && result.paths?.get(key)) || indexAll;
+  }
+  return result;
+}
+
+/**
+ * A quick utility method to get a {@link Changes} index specifier with the
+ * specified operations and keys
+ * @param operations The structural list operations, in order
+ * @param indices The specified keys after the operations are applied
+ * @returns The {@link Changes} index specifier
+ */
+export function changes(
+  operations: ListOperation[],
+  indices: Key[] | KeySet
+): Changes {
+  return {
+    indexType: "Changes",
+    operations,
+    indices: indices instanceof KeySet ? indices : new KeySet(indices),
+  };
+}
+
+/**
+ * Returns where a key ends up after a structural list operation is applied
+ * @param index The key before the operation
+ * @param operation The structural list operation
+ * @returns The key after the operation, or null if the key was deleted
+ */
+export function shiftIndex(index: Key, operation: ListOperation): Key | null {
+  // Only numeric keys have positions in a list
+  if (typeof index !== "number") return index;
+
+  if (operation.operation === "Insert") {
+    // Everything at or after the insertion point shifts up
+    return index >= operation.index ? index + (operation.count ?? 1) : index;
+  }
+  if (operation.operation === "Delete") {
+    // The deleted keys are gone and everything after them shifts down
+    if (index < operation.index) return index;
+    const count = operation.count ?? 1;
+    return index < operation.index + count ? null : index - count;
+  }
+  // The moved key goes straight to its destination
+  if (index === operation.from) return operation.to;
+  // Otherwise, the key shifts as if deleted from and then inserted at
+  const removed = index > operation.from ? index - 1 : index;
+  return removed >= operation.to ? removed + 1 : removed;
+}
+
+/**
+ * Applies a structural list operation to a list in place. Inserted items are
+ * left undefined; it's the caller's responsibility to fill them in.
+ * @param list The list to modify
+ * @param operation The structural list operation
+ */
+export function applyListOperation(list: any[], operation: ListOperation) {
+  if (operation.operation === "Insert") {
+    list.splice(operation.index, 0, ...new Array(operation.count ?? 1));
+  } else if (operation.operation === "Delete") {
+    list.splice(operation.index, operation.count ?? 1);
+  } else {
+    list.splice(operation.to, 0, ...list.splice(operation.from, 1));
+  }
+}
+
+/**
+ * Describes how to turn one list into another as a {@link Changes} index
+ * specifier, matching items between the lists by key. Items whose keys are in
+ * both lists are moved rather than deleted and reinserted, and the fewest
+ * possible items are moved. Keys are expected to be unique within each list.
+ * @param previousKeys The keys of the items in the previous list
+ * @param nextKeys The keys of the items in the next list
+ * @returns A {@link Changes} index specifier whose operations turn the previous
+ * list into the next list, with the indices of items that were inserted
+ */
+export function keyedChanges(
+  previousKeys: unknown[],
+  nextKeys: unknown[]
+): Changes {
+  const operations: ListOperation[] = [];
+  const nextKeySet = new Set(nextKeys);
+
+  // Delete keys that are no longer present (from the end, so the indices of
+  // earlier keys stay put), deleting runs of adjacent keys together
+  for (let i = previousKeys.length - 1; i >= 0; i--) {
+    if (nextKeySet.has(previousKeys[i])) continue;
+    const last = operations[operations.length - 1];
+    if (last?.operation === "Delete" && last.index === i + 1) {
+      last.index = i;
+      last.count = (last.count ?? 1) + 1;
+    } else {
+      operations.push({ operation: "Delete", index: i });
+    }
+  }
+  const current = previousKeys.filter((key) => nextKeySet.has(key));
+
+  // Keys in the longest run that is already in order never need to move
+  const previousPositions = new Map(current.map((key, i) => [key, i]));
+  const stable = new Set(
+    longestIncreasingSubsequence(
+      nextKeys
+        .filter((key) => previousPositions.has(key))
+        .map((key) => previousPositions.get(key)!)
+    ).map((position) => current[position])
+  );
+
+  // Every other key is placed right before the key that follows it, working
+  // backwards from the end of the list. Keys are only ever placed in one of
+  // two slots: their current one (the slot of their position in the current
+  // list) or the one they are placed in (given to the next key's index), so
+  // the order of all the slots is worked out up front. Each placed slot is
+  // right before the slot of the key that follows it.
+  const placedSlot = (i: number) => current.length + i;
+  const slotCount = current.length + nextKeys.length;
+  const head = slotCount;
+  const end = slotCount + 1;
+  // The slots are linked in order, starting with the current slots
+  const following: number[] = new Array(slotCount + 2);
+  const preceding: number[] = new Array(slotCount + 2);
+  let previous = head;
+  for (let slot = 0; slot <= current.length; slot++) {
+    const next = slot === current.length ? end : slot;
+    following[previous] = next;
+    preceding[next] = previous;
+    previous = next;
+  }
+  const anchorSlot = (i: number) => {
+    if (i === nextKeys.length - 1) return end;
+    const anchor = nextKeys[i + 1];
+    return stable.has(anchor)
+      ? previousPositions.get(anchor)!
+      : placedSlot(i + 1);
   };
+  for (let i = nextKeys.length - 1; i >= 0; i--) {
+    if (stable.has(nextKeys[i])) continue;
+    const slot = placedSlot(i);
+    const before = anchorSlot(i);
+    following[preceding[before]] = slot;
+    preceding[slot] = preceding[before];
+    following[slot] = before;
+    preceding[before] = slot;
+  }
+  const order: number[] = new Array(slotCount + 2);
+  let rank = 0;
+  for (let slot = following[head]; slot !== end; slot = following[slot]) {
+    order[slot] = rank++;
+  }
+  order[end] = rank;
+
+  // Track which slots hold a key to find the keys' positions as they move
+  const occupied = new SlotCounts(rank);
+  for (let i = 0; i < current.length; i++) {
+    occupied.add(order[i], 1);
+  }
+  const position = (slot: number) => occupied.before(order[slot]);
+
+  const inserted: Key[] = [];
+  for (let i = nextKeys.length - 1; i >= 0; i--) {
+    const key = nextKeys[i];
+    if (stable.has(key)) continue;
+
+    const anchor = position(anchorSlot(i));
+    const slot = previousPositions.get(key);
+    if (slot == null) {
+      // The key is new, and inserted along with any new keys right after it
+      const last = operations[operations.length - 1];
+      if (last?.operation === "Insert" && last.index === anchor) {
+        last.count = (last.count ?? 1) + 1;
+      } else {
+        operations.push({ operation: "Insert", index: anchor });
+      }
+      inserted.push(i);
+    } else {
+      // The key is moved (accounting for its own removal before the anchor)
+      const from = position(slot);
+      const to = from < anchor ? anchor - 1 : anchor;
+      if (from !== to) {
+        operations.push({ operation: "Move", from, to });
+      }
+      occupied.add(order[slot], -1);
+    }
+    occupied.add(order[placedSlot(i)], 1);
+  }
+
+  return changes(operations, inserted.reverse());
+}
+
+/**
+ * Counts how many slots in a row are occupied before a given slot (as a
+ * Fenwick tree), so that both occupying slots and counting take logarithmic
+ * time
+ */
+class SlotCounts {
+  // Partial counts, indexed from 1
+  protected tree: number[];
+
+  /**
+   * @param size The number of slots
+   */
+  constructor(size: number) {
+    this.tree = new Array(size + 1).fill(0);
+  }
+
+  /**
+   * Changes how many keys occupy a slot
+   * @param slot The slot
+   * @param count The number of keys to add (or remove, if negative)
+   */
+  add(slot: number, count: number) {
+    for (let i = slot + 1; i < this.tree.length; i += i & -i) {
+      this.tree[i] += count;
+    }
+  }
+
+  /**
+   * Counts the keys in the slots before a slot
+   * @param slot The slot
+   * @returns The number of keys before the slot
+   */
+  before(slot: number): number {
+    let count = 0;
+    for (let i = slot; i > 0; i -= i & -i) {
+      count += this.tree[i];
+    }
+    return count;
+  }
+}
+
+/**
+ * Finds the longest strictly increasing subsequence of a list of numbers
+ * @param numbers The numbers
+ * @returns The values in the longest increasing subsequence, in order
+ */
+function longestIncreasingSubsequence(numbers: number[]): number[] {
+  // The index of the last number in the best subsequence of each length
+  const tails: number[] = [];
+  // The index of the previous number in the best subsequence ending at each
+  // index
+  const previous: number[] = new Array(numbers.length);
+
+  for (let i = 0; i < numbers.length; i++) {
+    // Binary search for the first tail that is not smaller than the number
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (numbers[tails[middle]] < numbers[i]) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+
+  // Walk backwards from the end of the longest subsequence
+  const results: number[] = new Array(tails.length);
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+  for (let i = tails.length - 1; i >= 0; i--) {
+    results[i] = numbers[index];
+    index = previous[index];
+  }
+  return results;
 }
 
 /**
@@ -72,7 +726,14 @@ export function indexEmpty(indexSpecifier: IndexSpecifier): boolean {
   if (indexSpecifier.indexType === "None") return true;
   // Indices is only empty if no indices are set
   if (indexSpecifier.indexType === "Indices") {
-    return indexSpecifier.indices.length === 0;
+    return indexSpecifier.indices.size === 0;
+  }
+  // Changes is only empty if no operations or indices are set
+  if (indexSpecifier.indexType === "Changes") {
+    return (
+      indexSpecifier.operations.length === 0 &&
+      indexSpecifier.indices.size === 0
+    );
   }
   // Everything else is not empty
   return false;
@@ -81,16 +742,24 @@ export function indexEmpty(indexSpecifier: IndexSpecifier): boolean {
 /**
  * Returns whether an {@link IndexSpecifier} has the specified index
  * @param indexSpecifier The index specifier
- * @param index A key
+ * @param index A key, or a path of keys (outermost first) to check deep inside
+ * the data
  * @returns Whether the index specifier has the specified index in it or not
  */
-export function indexHas(indexSpecifier: IndexSpecifier, index: Key): boolean {
+export function indexHas(
+  indexSpecifier: IndexSpecifier,
+  index: Key | Key[]
+): boolean {
+  if (Array.isArray(index)) {
+    // A path is in the specifier if anything changed at or inside its end
+    return !indexEmpty(narrowIndex(indexSpecifier, index));
+  }
   // All has everything in it
   if (indexSpecifier.indexType === "All") return true;
   // None has nothing in it
   if (indexSpecifier.indexType === "None") return false;
   // See if the index is explicitly defined in the indices
-  return indexSpecifier.indices.includes(index);
+  return indexSpecifier.indices.has(index);
 }
 
 /**
@@ -98,10 +767,50 @@ export function indexHas(indexSpecifier: IndexSpecifier, index: Key): boolean {
  * @param indexSpecifier An index specifier to normalize
  * @returns A normalized index specifier. If the index specifier is empty,
  * returns {@link indexNone} (even if it is an {@link Indices} collection with
- * an empty list of keys)
+ * an empty list of keys). A {@link Changes} collection without any operations
+ * is returned as an {@link Indices} collection.
  */
-export function normalizeIndexSpecifier(indexSpecifier: IndexSpecifier) {
+export function normalizeIndexSpecifier(
+  indexSpecifier: IndexSpecifier
+): IndexSpecifier {
   if (indexEmpty(indexSpecifier)) return indexNone;
+  if (
+    indexSpecifier.indexType === "Changes" &&
+    indexSpecifier.operations.length === 0
+  ) {
+    return indices(indexSpecifier.indices);
+  }
+  return indexSpecifier;
+}
+
+/**
+ * Copies an index specifier, so that the copy can be modified without
+ * affecting the original
+ * @param indexSpecifier The index specifier
+ * @returns The copy
+ */
+export function cloneIndexSpecifier(
+  indexSpecifier: IndexSpecifier
+): IndexSpecifier {
+  if (indexSpecifier.indexType === "Indices") {
+    const result = indices(indexSpecifier.indices.clone());
+    if (indexSpecifier.paths != null) {
+      result.paths = new Map(indexSpecifier.paths);
+    }
+    if (indexSpecifier.added != null) {
+      result.added = indexSpecifier.added.clone();
+    }
+    if (indexSpecifier.removed != null) {
+      result.removed = indexSpecifier.removed.clone();
+    }
+    return result;
+  }
+  if (indexSpecifier.indexType === "Changes") {
+    return changes(
+      [...indexSpecifier.operations],
+      indexSpecifier.indices.clone()
+    );
+  }
   return indexSpecifier;
 }
 
@@ -112,7 +821,14 @@ export function normalizeIndexSpecifier(indexSpecifier: IndexSpecifier) {
  * If any specifier is {@link indexAll}, that is returned. If both specifiers
  * are empty, {@link indexNone} is returned. If only one of the specifiers is
  * empty, the non-empty one is returned. If both specifiers are a list of
- * indices, the indices list is merged together as a non-duplicated list.
+ * indices, the indices list is merged together as a non-duplicated list. If
+ * either specifier has structural {@link Changes}, the operations are
+ * concatenated in order and the base specifier's keys are shifted through the
+ * new specifier's operations before merging.
+ *
+ * Neither specifier is modified: the base specifier is copied on every call,
+ * keys and all. Callers that accumulate many changes into one specifier should
+ * merge them with {@link mergeIndexSpecifiersInto} instead.
  * @param baseSpecifier The base index specifier
  * @param newSpecifier A new index specifier to merge in
  * @returns A merged index specifier
@@ -120,6 +836,29 @@ export function normalizeIndexSpecifier(indexSpecifier: IndexSpecifier) {
 export function mergeIndexSpecifiers(
   baseSpecifier: IndexSpecifier,
   newSpecifier: IndexSpecifier
+): IndexSpecifier {
+  return mergeIndexSpecifiersInto(
+    cloneIndexSpecifier(baseSpecifier),
+    newSpecifier
+  );
+}
+
+/**
+ * Merges a new {@link IndexSpecifier} into a base specifier, like
+ * {@link mergeIndexSpecifiers}, but reuses the base specifier rather than
+ * copying it. This keeps accumulating many small changes (such as a channel's
+ * dirty indices) from copying all the keys on every change.
+ *
+ * The base specifier may be modified, so it must not be shared; only pass in
+ * the result of a previous merge (or {@link indexNone} to start). The new
+ * specifier is never modified, and is copied if it needs to be returned.
+ * @param baseSpecifier The base index specifier, which may be modified
+ * @param newSpecifier A new index specifier to merge in
+ * @returns A merged index specifier
+ */
+export function mergeIndexSpecifiersInto(
+  baseSpecifier: IndexSpecifier,
+  newSpecifier: IndexSpecifier
 ): IndexSpecifier {
   // If any specifier is indexAll, return indexAll
   if (baseSpecifier.indexType === "All" || newSpecifier.indexType === "All") {
@@ -128,28 +867,105 @@ export function mergeIndexSpecifiers(
 
   // If one specifier is indexNone, return the other one
   if (baseSpecifier.indexType === "None") {
-    return normalizeIndexSpecifier(newSpecifier);
+    return normalizeIndexSpecifier(cloneIndexSpecifier(newSpecifier));
   }
   if (newSpecifier.indexType === "None") {
     return normalizeIndexSpecifier(baseSpecifier);
   }
 
   // Both specifiers are a list of indices; merge the indices
-  let merged: { [key: Key]: boolean } = {};
-  const newIndices: Key[] = [];
-
-  for (const indices of [baseSpecifier.indices, newSpecifier.indices]) {
-    // Iterate through every key
-    for (const index of indices) {
-      if (!merged[index]) {
-        // Only add the key in if it hasn't been added in yet
-        newIndices.push(index);
-        // Keep track that the key has been added in
-        merged[index] = true;
-      }
+  if (
+    baseSpecifier.indexType === "Indices" &&
+    newSpecifier.indexType === "Indices"
+  ) {
+    // Paths are merged first, since they depend on which keys each had
+    mergePaths(baseSpecifier, newSpecifier);
+    mergeAddedRemoved(baseSpecifier, newSpecifier);
+    baseSpecifier.indices.addAll(newSpecifier.indices);
+    return normalizeIndexSpecifier(baseSpecifier);
+  }
+
+  // Paths are dropped once there are structural changes, so their keys are
+  // considered to have changed entirely. Structural changes only apply to
+  // lists, which never add or remove keys.
+
+  // At least one specifier has structural changes. Move the base keys through
+  // each of the new operations so they describe the same positions
+  const newOperations =
+    newSpecifier.indexType === "Changes" ? newSpecifier.operations : [];
+  const keys = baseSpecifier.indices;
+  keys.shift(newOperations);
+
+  // Concatenate the operations and merge the keys
+  const operations =
+    baseSpecifier.indexType === "Changes" ? baseSpecifier.operations : [];
+  for (const operation of newOperations) {
+    operations.push(operation);
+  }
+  return normalizeIndexSpecifier(
+    changes(operations, keys.addAll(newSpecifier.indices))
+  );
+}
+
+/**
+ * Merges the paths of a new {@link Indices} collection into a base collection,
+ * before their keys are merged
+ * @param baseSpecifier The base collection, whose paths are modified
+ * @param newSpecifier A new collection to merge in
+ */
+function mergePaths(baseSpecifier: Indices, newSpecifier: Indices) {
+  if (baseSpecifier.paths == null && newSpecifier.paths == null) return;
+
+  // Keys that changed entirely in either collection have no path
+  const paths = baseSpecifier.paths ?? new Map<Key, IndexSpecifier>();
+  for (const [key, basePath] of paths) {
+    if (!newSpecifier.indices.has(key)) continue;
+    // Paths may be shared with other specifiers, so they are never merged in
+    // place
+    const path = mergeIndexSpecifiers(
+      basePath,
+      newSpecifier.paths?.get(key) ?? indexAll
+    );
+    if (path.indexType === "All") {
+      paths.delete(key);
+    } else {
+      paths.set(key, path);
     }
   }
+  // A key that is not in the base collection changed nowhere inside it there
+  for (const [key, newPath] of newSpecifier.paths ?? []) {
+    if (!baseSpecifier.indices.has(key)) paths.set(key, newPath);
+  }
+
+  if (paths.size > 0) {
+    baseSpecifier.paths = paths;
+  } else {
+    delete baseSpecifier.paths;
+  }
+}
+
+/**
+ * Merges which keys a new {@link Indices} collection added and removed into a
+ * base collection. A key that is added and then removed is neither, though it
+ * stays among the specified keys. A key that is removed and then added again is
+ * both, since re-adding a key moves it to the end of the dictionary's keys.
+ * @param baseSpecifier The base collection, which is modified
+ * @param newSpecifier A new collection to merge in
+ */
+function mergeAddedRemoved(baseSpecifier: Indices, newSpecifier: Indices) {
+  if (newSpecifier.added == null && newSpecifier.removed == null) return;
+
+  const added = baseSpecifier.added ?? new KeySet();
+  const removed = baseSpecifier.removed ?? new KeySet();
+  for (const key of newSpecifier.removed ?? []) {
+    if (!added.delete(key)) removed.add(key);
+  }
+  for (const key of newSpecifier.added ?? []) {
+    added.add(key);
+  }
 
-  // Return the merged results
-  return normalizeIndexSpecifier(indices(newIndices));
+  delete baseSpecifier.added;
+  delete baseSpecifier.removed;
+  if (added.size > 0) baseSpecifier.added = added;
+  if (removed.size > 0) baseSpecifier.removed = removed;
 }
@@ -0,0 +1,170 @@
+import { List, Number, String } from "./channelFn";
+import { Element } from "./dom";
+import { Child, h, JSXFragment } from "./jsx";
+import { MemoryElement, memoryRenderer } from "./memoryRenderer";
+import { renderToString } from "./renderToString";
+
+/**
+ * Mounts a JSX element into a new in-memory root element
+ */
+function mount(element: Child): MemoryElement {
+  const root = new MemoryElement("body");
+  (element as Element).mount(root, null, memoryRenderer);
+  return root;
+}
+
+describe("jsx", () => {
+  test("static elements", () => {
+    const app = (
+      <div className="app" hidden={false}>
+        Count: {1}
+        <br />
+        {null}
+        {false}
+        <b>bold</b>
+      </div>
+    );
+    expect(app).toBeInstanceOf(Element);
+    expect(renderToString(app as Element)).toEqual(
+      '<div class="app">Count: 1<br><b>bold</b></div>'
+    );
+  });
+
+  test("reactive text", () => {
+    const name = new String("world");
+    const count = new Number(1);
+    const root = mount(
+      <p>
+        Hello {name} #{count}
+      </p>
+    );
+    expect(root.toHTML()).toEqual("<body><p>Hello world #1</p></body>");
+
+    const p = root.children[0] as MemoryElement;
+    const [hello] = p.children;
+    name.data = "there";
+    count.data = 2;
+    expect(root.toHTML()).toEqual("<body><p>Hello there #2</p></body>");
+    // The static text is untouched
+    expect(p.children[0]).toBe(hello);
+  });
+
+  test("disposing releases channels created for text", () => {
+    const count = new Number(1);
+    const p = h("p", null, "n=", count) as Element;
+    mount(p);
+    expect(count.connectedChannels).toHaveLength(1);
+
+    p.dispose();
+    expect(count.connectedChannels).toHaveLength(0);
+  });
+
+  test("reactive children", () => {
+    const list = new List([1, 2]);
+    const root = mount(
+      <ul>
+        {list.map((number) => (
+          <li>{number}</li>
+        ))}
+      </ul>
+    );
+    const ul = root.children[0] as MemoryElement;
+    const [first] = ul.children;
+
+    list.push(3);
+    expect(ul.toHTML()).toEqual("<ul><li>1</li><li>2</li><li>3</li></ul>");
+    expect(ul.children[0]).toBe(first);
+  });
+
+  test("mixed static and reactive children", () => {
+    const list = new List(["a", "b"]);
+    const root = mount(
+      <ul>
+        <li>first</li>
+        {list.map((text) => (
+          <li>{text}</li>
+        ))}
+        <li>last</li>
+      </ul>
+    );
+    const ul = root.children[0] as MemoryElement;
+    const [first, a] = ul.children;
+
+    list.push("c");
+    expect(ul.toHTML()).toEqual(
+      "<ul><li>first</li><li>a</li><li>b</li><li>c</li><li>last</li></ul>"
+    );
+    // Children that are still present keep their nodes
+    expect(ul.children[0]).toBe(first);
+    expect(ul.children[1]).toBe(a);
+  });
+
+  test("options", () => {
+    const click = jest.fn();
+    const color = new String("red");
+    const root = mount(
+      <input
+        key="field"
+        type="text"
+        value="hi"
+        style={{ color }}
+        onClick={click}
+      />
+    );
+    const input = root.children[0] as MemoryElement;
+    expect(input.attributes).toEqual({ type: "text" });
+    expect(input.properties).toEqual({ value: "hi" });
+    expect(input.style).toEqual({ color: "red" });
+
+    color.data = "blue";
+    expect(input.style).toEqual({ color: "blue" });
+    input.dispatch("click");
+    expect(click).toHaveBeenCalledTimes(1);
+  });
+
+  test("form state is rendered to string", () => {
+    const text = new String("a");
+    const app = (
+      <p>
+        <input value="hi" />
+        <input type="checkbox" checked />
+        <input bind:value={text} />
+      </p>
+    );
+    expect(renderToString(app as Element)).toEqual(
+      '<p><input value="hi"><input type="checkbox" checked><input value="a"></p>'
+    );
+  });
+
+  test("bindings", () => {
+    const text = new String("a");
+    const root = mount(<input bind:value={text} />);
+    const input = root.children[0] as MemoryElement;
+    expect(input.properties).toEqual({ value: "a" });
+
+    input.properties.value = "ab";
+    input.dispatch("input");
+    expect(text.data).toEqual("ab");
+  });
+
+  test("components and fragments", () => {
+    function Item(props: { label: string; children: Child }) {
+      return (
+        <li>
+          {props.label}: {props.children}
+        </li>
+      );
+    }
+    const app = (
+      <ul>
+        <>
+          <Item label="a">1</Item>
+          <Item label="b">2</Item>
+        </>
+      </ul>
+    );
+    expect(renderToString(app as Element)).toEqual(
+      "<ul><li>a: 1</li><li>b: 2</li></ul>"
+    );
+  });
+});
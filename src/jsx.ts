@@ -0,0 +1,259 @@
+/**
+ * This file provides a JSX front end for building DOM channel trees
+ *
+ * With the TypeScript compiler options `"jsx": "react"`, `"jsxFactory": "h"`
+ * and `"jsxFragmentFactory": "JSXFragment"`, JSX compiles to calls to
+ * {@link h}, which builds the same element and fragment channels one would
+ * otherwise construct by hand:
+ *
+ * ```tsx
+ * const name = new String("world");
+ * const app = <p class="greeting">Hello {name}!</p>;
+ * ```
+ *
+ * Static values are wrapped in channels automatically. Interpolated channels
+ * stay reactive: a channel of text (or numbers) becomes a text fragment that
+ * updates in place, and a channel of child lists (such as the result of
+ * `List.map`) becomes children that update just the children that changed.
+ */
+
+import { AutomaticChannel, Channel, DataChannel } from "./channel";
+import { List } from "./channelFn";
+import {
+  AttributeValue,
+  Bindings,
+  Element,
+  ElementOptions,
+  Fragment,
+} from "./dom";
+
+/**
+ * Anything that can be written as a JSX child. Null, undefined and booleans
+ * render nothing, which allows for conditions like `{show && <b>Hi</b>}`.
+ * Channels may store text, numbers or lists of elements and fragments.
+ */
+export type Child =
+  | Element
+  | Fragment
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Channel<string>
+  | Channel<number>
+  | Channel<(Element | Fragment)[]>
+  | Child[];
+
+/**
+ * The props of an intrinsic element. Props named like `onClick` that are
+ * functions attach event listeners, props named like `bind:value` bind form
+ * state to a data channel (see `Bindings`), `key` and `style` (as an object)
+ * set the corresponding element options, a few props that reflect form state
+ * (such as `value` and `checked`) set properties, and everything else sets
+ * attributes.
+ */
+export type Props = Record<string, any>;
+
+/**
+ * A function component, which is called once with its props and children to
+ * build its part of the channel tree
+ */
+export type Component<P extends Props = Props> = (
+  props: P & { children: Child[] }
+) => Child;
+
+/**
+ * Props that set an element's properties rather than its attributes, since
+ * their attributes only reflect the initial state
+ */
+const propertyNames = new Set([
+  "value",
+  "checked",
+  "selected",
+  "indeterminate",
+  "muted",
+]);
+
+/**
+ * Props whose names differ from the attributes they set
+ */
+const attributeNames: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+};
+
+/**
+ * Flattens nested children and leaves out children that render nothing
+ * @param children The children as written
+ * @returns The children that render something, in order
+ */
+function flatten(children: Child[]): Child[] {
+  const result: Child[] = [];
+  for (const child of children) {
+    if (Array.isArray(child)) {
+      result.push(...flatten(child));
+    } else if (child != null && typeof child !== "boolean") {
+      result.push(child);
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a single child into either a DOM channel or a channel of DOM
+ * channels
+ * @param child A flattened child
+ * @returns The DOM channel, or the channel of DOM channels
+ */
+function toDOM(
+  child: Child
+): Element | Fragment | Channel<(Element | Fragment)[]> {
+  if (child instanceof Element || child instanceof Fragment) {
+    return child;
+  }
+  if (child instanceof Channel) {
+    const data = child.data;
+    if (Array.isArray(data)) {
+      // The channel stores children
+      return child as Channel<(Element | Fragment)[]>;
+    }
+    // The channel stores text
+    return new Fragment(
+      typeof data === "string"
+        ? (child as Channel<string>)
+        : new AutomaticChannel([child as Channel<any>], (value) => `${value}`)
+    );
+  }
+  return new Fragment(new DataChannel(`${child}`));
+}
+
+/**
+ * Combines children into the single channel of children an element expects
+ * @param children The children as written
+ * @returns A channel of the element's children
+ */
+function childrenChannel(children: Child[]): Channel<(Element | Fragment)[]> {
+  const parts = flatten(children).map(toDOM);
+  const channels = parts.filter(
+    (part): part is Channel<(Element | Fragment)[]> =>
+      !(part instanceof Element || part instanceof Fragment)
+  );
+
+  if (channels.length === 0) {
+    // Static children
+    return new List(parts as (Element | Fragment)[]);
+  }
+  if (parts.length === 1) {
+    // Pass a lone channel of children through so the element can apply its
+    // fine-grained updates
+    return channels[0];
+  }
+
+  // Concatenate the static and dynamic children. Any change rebuilds the list,
+  // but the element keeps the nodes of children that are still present.
+  return new AutomaticChannel(channels, (...lists) => {
+    const result: (Element | Fragment)[] = [];
+    let i = 0;
+    for (const part of parts) {
+      if (part instanceof Element || part instanceof Fragment) {
+        result.push(part);
+      } else {
+        result.push(...lists[i++]);
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Sorts an intrinsic element's props into element options
+ * @param props The props as written
+ * @returns The element options
+ */
+function elementOptions(props: Props): ElementOptions {
+  const attributes: Record<string, AttributeValue | Channel<AttributeValue>> =
+    {};
+  const properties: Record<string, any> = {};
+  const events: Record<string, EventListener> = {};
+  const bindings: Bindings = {};
+  const options: ElementOptions = { attributes, properties, events, bindings };
+
+  for (const [name, value] of Object.entries(props)) {
+    if (name === "children") continue;
+    if (name === "key") {
+      options.key = value;
+    } else if (
+      name === "style" &&
+      value != null &&
+      typeof value === "object" &&
+      !(value instanceof Channel)
+    ) {
+      options.style = value;
+    } else if (name.startsWith("bind:")) {
+      bindings[name.slice(5) as keyof Bindings] = value;
+    } else if (/^on[A-Z]/.test(name) && typeof value === "function") {
+      events[name.slice(2).toLowerCase()] = value;
+    } else if (propertyNames.has(name)) {
+      properties[name] = value;
+    } else {
+      attributes[attributeNames[name] ?? name] = value;
+    }
+  }
+  return options;
+}
+
+/**
+ * The JSX factory. Builds an element channel from an intrinsic element (a tag
+ * name), or calls a function component.
+ * @param tag The tag name or component
+ * @param props The props, or null if there are none
+ * @param children The children
+ * @returns The element, or whatever the component returns
+ */
+export function h(
+  tag: string,
+  props: Props | null,
+  ...children: Child[]
+): Element;
+export function h<P extends Props>(
+  tag: Component<P>,
+  props: P | null,
+  ...children: Child[]
+): Child;
+export function h(
+  tag: string | Component<any>,
+  props: Props | null,
+  ...children: Child[]
+): Child {
+  if (typeof tag === "function") {
+    return tag({ ...props, children: flatten(children) });
+  }
+  return new Element(
+    tag,
+    childrenChannel(children),
+    elementOptions(props ?? {})
+  );
+}
+
+/**
+ * The JSX fragment factory, used for `<>...</>`. A JSX fragment has no node of
+ * its own: its children are spliced into the element it is written in.
+ * @param props The fragment's props, holding its children
+ * @returns The children
+ */
+export function JSXFragment(props: { children: Child[] }): Child {
+  return props.children;
+}
+
+export declare namespace h {
+  namespace JSX {
+    type Element = Child;
+    interface IntrinsicElements {
+      [tag: string]: Props;
+    }
+    interface ElementChildrenAttribute {
+      children: {};
+    }
+  }
+}
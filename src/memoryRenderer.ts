@@ -0,0 +1,168 @@
+/**
+ * This file provides a renderer that renders DOM channels into a lightweight
+ * in-memory tree. It needs no browser, which makes it useful for testing DOM
+ * channels.
+ */
+
+import { Renderer } from "./renderer";
+import { escapeAttribute, escapeText } from "./renderToString";
+
+/**
+ * The base class of all in-memory nodes
+ */
+export abstract class MemoryNode {
+  /**
+   * The element the node is in, or null if it has no parent
+   */
+  public parent: MemoryElement | null = null;
+
+  /**
+   * Serializes the node and everything in it to HTML
+   */
+  abstract toHTML(): string;
+}
+
+/**
+ * An in-memory text node
+ */
+export class MemoryText extends MemoryNode {
+  constructor(public text: string) {
+    super();
+  }
+
+  toHTML(): string {
+    return escapeText(this.text);
+  }
+}
+
+/**
+ * An in-memory placeholder node, which reserves a position among an element's
+ * children
+ */
+export class MemoryPlaceholder extends MemoryNode {
+  toHTML(): string {
+    return "<!---->";
+  }
+}
+
+/**
+ * An in-memory element node
+ */
+export class MemoryElement extends MemoryNode {
+  public children: MemoryNode[] = [];
+  public attributes: Record<string, string> = {};
+  public properties: Record<string, any> = {};
+  public style: Record<string, string> = {};
+  public listeners: Record<string, EventListener[]> = {};
+
+  constructor(readonly tag: string) {
+    super();
+  }
+
+  /**
+   * Runs all the event listeners of the specified type
+   * @param type The event type
+   * @param event The event to pass to the listeners
+   */
+  dispatch(type: string, event: Event = { type } as Event) {
+    for (const listener of [...(this.listeners[type] ?? [])]) {
+      listener(event);
+    }
+  }
+
+  toHTML(): string {
+    // Serialize the attributes and inline styles
+    let attributes = "";
+    for (const [name, value] of Object.entries(this.attributes)) {
+      attributes += ` ${name}="${escapeAttribute(value)}"`;
+    }
+    const style = Object.entries(this.style)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("; ");
+    if (style !== "") {
+      attributes += ` style="${escapeAttribute(style)}"`;
+    }
+
+    const contents = this.children.map((child) => child.toHTML()).join("");
+    return `<${this.tag}${attributes}>${contents}</${this.tag}>`;
+  }
+}
+
+/**
+ * A renderer that renders into in-memory nodes
+ */
+export const memoryRenderer: Renderer<MemoryNode> = {
+  createElement: (tag) => new MemoryElement(tag),
+  createText: (text) => new MemoryText(text),
+  createPlaceholder: () => new MemoryPlaceholder(),
+  insert: (parent: MemoryElement, node, before) => {
+    // Moving a node removes it from where it was first
+    memoryRenderer.remove(node);
+    const index = before == null ? -1 : parent.children.indexOf(before);
+    if (index === -1) {
+      parent.children.push(node);
+    } else {
+      parent.children.splice(index, 0, node);
+    }
+    node.parent = parent;
+  },
+  remove: (node) => {
+    if (node.parent != null) {
+      node.parent.children.splice(node.parent.children.indexOf(node), 1);
+      node.parent = null;
+    }
+  },
+  childAt: (parent: MemoryElement, index) => parent.children[index] ?? null,
+  childCount: (parent: MemoryElement) => parent.children.length,
+  firstChild: (parent: MemoryElement) => parent.children[0] ?? null,
+  nextSibling: (node) => {
+    if (node.parent == null) return null;
+    const siblings = node.parent.children;
+    return siblings[siblings.indexOf(node) + 1] ?? null;
+  },
+  tagName: (node) =>
+    node instanceof MemoryElement ? node.tag.toLowerCase() : null,
+  getText: (node) => (node instanceof MemoryText ? node.text : null),
+  setText: (node: MemoryText, text) => {
+    node.text = text;
+  },
+  splitText: (node: MemoryText, offset) => {
+    const rest = new MemoryText(node.text.slice(offset));
+    node.text = node.text.slice(0, offset);
+    if (node.parent != null) {
+      memoryRenderer.insert(
+        node.parent,
+        rest,
+        memoryRenderer.nextSibling(node)
+      );
+    }
+  },
+  setAttribute: (node: MemoryElement, name, value) => {
+    if (value == null) {
+      delete node.attributes[name];
+    } else {
+      node.attributes[name] = value;
+    }
+  },
+  setProperty: (node: MemoryElement, name, value) => {
+    node.properties[name] = value;
+  },
+  getProperty: (node: MemoryElement, name) => node.properties[name],
+  setStyle: (node: MemoryElement, name, value) => {
+    if (value == null) {
+      delete node.style[name];
+    } else {
+      node.style[name] = value;
+    }
+  },
+  addEventListener: (node: MemoryElement, type, listener) => {
+    (node.listeners[type] ??= []).push(listener);
+  },
+  removeEventListener: (node: MemoryElement, type, listener) => {
+    const listeners = node.listeners[type] ?? [];
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  },
+};
@@ -0,0 +1,123 @@
+import { AutomaticChannel, batch, ChannelEvent } from "./channel";
+import { List, Number } from "./channelFn";
+import { indices } from "./indexSpecifier";
+import { profile, Profiler } from "./profile";
+
+/**
+ * A list with a mapped list and a total of the mapped list downstream
+ */
+function graph() {
+  const list = new List([1, 2, 3]);
+  const doubled = list.map((x) => x * 2);
+  const total = new AutomaticChannel([doubled], (items) =>
+    items.reduce((a, b) => a + b, 0)
+  );
+  total.data;
+  return { list, doubled, total };
+}
+
+test("recalculations are counted", () => {
+  const { list, doubled, total } = graph();
+  const { profiler, result } = profile(() => {
+    list.setItem(0, 10);
+    batch(() => {
+      list.setItem(1, 20);
+      list.setItem(2, 30);
+    });
+    return total.data;
+  });
+  expect(result).toEqual(120);
+
+  const doubledProfile = profiler.channels.get(doubled)!;
+  expect(doubledProfile.markDirty).toEqual(3);
+  expect(doubledProfile.updateFunction.runs).toEqual(0);
+  expect(doubledProfile.updateIndexFunction.runs).toEqual(1);
+  expect(doubledProfile.updateIndexFunction.indices).toEqual(3);
+  expect(doubledProfile.updateIndexFunction.time).toBeGreaterThanOrEqual(0);
+
+  const totalProfile = profiler.channels.get(total)!;
+  expect(totalProfile.markDirty).toEqual(3);
+  expect(totalProfile.updateFunction.runs).toEqual(1);
+  expect(totalProfile.updateFunction.indices).toEqual(0);
+
+  // Each change marked both downstream channels dirty
+  expect(profiler.mutations).toEqual([
+    { channel: list, indexSpecifier: indices([0]), markDirty: 2 },
+    { channel: list, indexSpecifier: indices([1]), markDirty: 2 },
+    { channel: list, indexSpecifier: indices([2]), markDirty: 2 },
+  ]);
+  expect(profiler.results().map(({ channel }) => channel)).toHaveLength(2);
+});
+
+test("expensive channels come first", () => {
+  const list = new List([1, 2, 3]);
+  const cheap = list.map((x) => x);
+  const expensive = list.map((x) => {
+    // Busy wait to take a measurable amount of time
+    const start = performance.now();
+    while (performance.now() - start < 5);
+    return x;
+  });
+
+  const { profiler } = profile(() => {
+    list.setItem(0, 10);
+    cheap.data;
+    expensive.data;
+  });
+  expect(profiler.results().map(({ channel }) => channel)).toEqual([
+    expensive,
+    cheap,
+  ]);
+  expect(
+    profiler.channels.get(expensive)!.updateFunction.time
+  ).toBeGreaterThanOrEqual(5);
+});
+
+test("reductions applied as deltas are counted", () => {
+  const list = new List([1, 2, 3]);
+  const total = Number.sum(list);
+  total.data;
+
+  const { profiler, result } = profile(() => {
+    list.setItem(0, 10);
+    list.push(4);
+    return total.data;
+  });
+  expect(result).toEqual(19);
+  const totalProfile = profiler.channels.get(total)!;
+  expect(totalProfile.updateFunction.runs).toEqual(0);
+  expect(totalProfile.updateIndexFunction.runs).toEqual(1);
+  expect(totalProfile.updateIndexFunction.indices).toEqual(2);
+});
+
+test("start, stop and reset", () => {
+  const { list, total } = graph();
+  const events: ChannelEvent[] = [];
+  const profiler = new Profiler();
+  profiler.onEvent = (event) => events.push(event);
+
+  // Nothing is recorded before the profiler starts
+  list.setItem(0, 10);
+  total.data;
+  expect(profiler.running).toBeFalsy();
+  expect(profiler.mutations).toHaveLength(0);
+
+  profiler.start();
+  list.setItem(0, 20);
+  total.data;
+  profiler.stop();
+  list.setItem(0, 30);
+  total.data;
+  expect(profiler.mutations).toHaveLength(1);
+  expect(events.map(({ type }) => type)).toEqual([
+    "mutation",
+    "markDirty",
+    "markDirty",
+    "update",
+    "update",
+  ]);
+
+  profiler.reset();
+  expect(profiler.mutations).toHaveLength(0);
+  expect(profiler.results()).toEqual([]);
+});
@@ -0,0 +1,207 @@
+/**
+ * This file provides opt-in profiling of channel recalculations
+ *
+ * A profiler observes the channel graph (through `observeChannels`) while it
+ * is running, and records how often and how long each automatic channel
+ * recalculated its data, how many indices were dirty when it did, and how many
+ * channels each change marked dirty. Nothing is measured while no profiler (or
+ * other channel observer) is running. For other dashboards, the raw events are
+ * available from `observeChannels` directly.
+ */
+
+import { Channel, ChannelEvent, observeChannels } from "./channel";
+import { IndexSpecifier } from "./indexSpecifier";
+
+/**
+ * The recalculations of a channel with one of its update functions
+ */
+export interface UpdateStats {
+  /**
+   * How many times the channel recalculated its data this way
+   */
+  runs: number;
+
+  /**
+   * How long the recalculations took in total, in milliseconds
+   */
+  time: number;
+
+  /**
+   * How many dirty indices were recalculated in total. Recalculating all the
+   * data with the update function does not count any.
+   */
+  indices: number;
+}
+
+/**
+ * The profile of a single channel
+ */
+export interface ChannelProfile {
+  channel: Channel<any>;
+
+  /**
+   * Recalculations of all the data with the update function
+   */
+  updateFunction: UpdateStats;
+
+  /**
+   * Recalculations of just the dirty indices with the update index function
+   */
+  updateIndexFunction: UpdateStats;
+
+  /**
+   * How many times the channel was marked dirty
+   */
+  markDirty: number;
+}
+
+/**
+ * A change that started propagating from a channel, and how many times it
+ * marked channels dirty
+ */
+export interface MutationProfile {
+  channel: Channel<any>;
+  indexSpecifier: IndexSpecifier;
+  markDirty: number;
+}
+
+/**
+ * Creates a record of no recalculations
+ */
+function noUpdates(): UpdateStats {
+  return { runs: 0, time: 0, indices: 0 };
+}
+
+/**
+ * Records the recalculations in the channel graph while it is running
+ */
+export class Profiler {
+  /**
+   * The profile of each channel that was marked dirty or recalculated
+   */
+  readonly channels = new Map<Channel<any>, ChannelProfile>();
+
+  /**
+   * Every change, in order
+   */
+  readonly mutations: MutationProfile[] = [];
+
+  /**
+   * Called with every event the profiler records, such as to stream events to
+   * a dashboard
+   */
+  onEvent: ((event: ChannelEvent) => void) | null = null;
+
+  // Stops observing the channel graph, or null if the profiler is stopped
+  protected stopObserving: (() => void) | null = null;
+
+  /**
+   * Starts recording, if the profiler is not already running
+   * @returns The profiler
+   */
+  start(): this {
+    if (this.stopObserving == null) {
+      this.stopObserving = observeChannels((event) => this.record(event));
+    }
+    return this;
+  }
+
+  /**
+   * Stops recording. What was recorded is kept.
+   */
+  stop() {
+    this.stopObserving?.();
+    this.stopObserving = null;
+  }
+
+  /**
+   * Whether the profiler is recording
+   */
+  get running(): boolean {
+    return this.stopObserving != null;
+  }
+
+  /**
+   * Forgets everything recorded so far
+   */
+  reset() {
+    this.channels.clear();
+    this.mutations.length = 0;
+  }
+
+  /**
+   * The channel profiles, most expensive (by total recalculation time) first
+   * @returns The channel profiles
+   */
+  results(): ChannelProfile[] {
+    const time = (profile: ChannelProfile) =>
+      profile.updateFunction.time + profile.updateIndexFunction.time;
+    return [...this.channels.values()].sort(
+      (profile1, profile2) => time(profile2) - time(profile1)
+    );
+  }
+
+  /**
+   * Records an event
+   * @param event The event
+   */
+  protected record(event: ChannelEvent) {
+    if (event.type === "mutation") {
+      this.mutations.push({
+        channel: event.channel,
+        indexSpecifier: event.indexSpecifier,
+        markDirty: 0,
+      });
+    } else if (event.type === "markDirty") {
+      this.profile(event.channel).markDirty++;
+      const mutation = this.mutations[this.mutations.length - 1];
+      if (mutation != null) mutation.markDirty++;
+    } else {
+      const stats = this.profile(event.channel)[event.method];
+      stats.runs++;
+      stats.time += event.duration;
+      if (
+        event.method === "updateIndexFunction" &&
+        (event.dirty.indexType === "Indices" ||
+          event.dirty.indexType === "Changes")
+      ) {
+        stats.indices += event.dirty.indices.size;
+      }
+    }
+    this.onEvent?.(event);
+  }
+
+  /**
+   * Gets the profile of a channel, creating it if need be
+   * @param channel The channel
+   * @returns The channel's profile
+   */
+  protected profile(channel: Channel<any>): ChannelProfile {
+    let profile = this.channels.get(channel);
+    if (profile == null) {
+      profile = {
+        channel,
+        updateFunction: noUpdates(),
+        updateIndexFunction: noUpdates(),
+        markDirty: 0,
+      };
+      this.channels.set(channel, profile);
+    }
+    return profile;
+  }
+}
+
+/**
+ * Profiles a function: records the recalculations in the channel graph while
+ * it runs
+ * @param fn The function to run
+ * @returns The profiler with the recordings, and what the function returned
+ */
+export function profile<T>(fn: () => T): { profiler: Profiler; result: T } {
+  const profiler = new Profiler().start();
+  try {
+    return { profiler, result: fn() };
+  } finally {
+    profiler.stop();
+  }
+}
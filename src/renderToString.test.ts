@@ -0,0 +1,166 @@
+import { DataChannel } from "./channel";
+import { List, String } from "./channelFn";
+import { StyleSheet } from "./css";
+import { Element, Fragment } from "./dom";
+import { escapeAttribute, escapeText, renderToString } from "./renderToString";
+
+test("escape", () => {
+  expect(escapeText("a < b && c > d")).toEqual("a &lt; b &amp;&amp; c &gt; d");
+  expect(escapeText('"quoted"')).toEqual('"quoted"');
+  expect(escapeAttribute('say "hi" & <bye>')).toEqual(
+    "say &quot;hi&quot; &amp; &lt;bye&gt;"
+  );
+});
+
+describe("render to string", () => {
+  test("fragment", () => {
+    expect(renderToString(new Fragment(new String("<b>hi</b>")))).toEqual(
+      "&lt;b&gt;hi&lt;/b&gt;"
+    );
+  });
+
+  test("nested elements", () => {
+    const list = new List([1, 2]);
+    const app = new Element(
+      "ul",
+      list.map(
+        (number) =>
+          new Element("li", new List([new Fragment(new String(`${number}`))]))
+      )
+    );
+    expect(renderToString(app)).toEqual("<ul><li>1</li><li>2</li></ul>");
+
+    // Rendering again reflects changes to the data
+    list.push(3);
+    list.setItem(0, 10);
+    expect(renderToString(app)).toEqual(
+      "<ul><li>10</li><li>2</li><li>3</li></ul>"
+    );
+  });
+
+  test("attributes", () => {
+    const className = new String("big");
+    const link = new Element(
+      "a",
+      new List([new Fragment(new String("Link"))]),
+      {
+        attributes: {
+          class: className,
+          href: "/search?a=1&b=2",
+          title: 'A "title"',
+          hidden: false,
+          draggable: true,
+          tabindex: 0,
+          id: null,
+        },
+        properties: { title: "ignored" },
+        events: { click: () => {} },
+      }
+    );
+    expect(renderToString(link)).toEqual(
+      '<a class="big" href="/search?a=1&amp;b=2" title="A &quot;title&quot;"' +
+        ' draggable tabindex="0">Link</a>'
+    );
+
+    // Attribute channels are read when rendering
+    className.data = "small";
+    expect(renderToString(link)).toContain('class="small"');
+  });
+
+  test("styles", () => {
+    const color = new String("red");
+    const element = new Element("div", new List<Element | Fragment>([]), {
+      attributes: { style: "margin: 0;" },
+      style: { color, "font-size": "2px", display: null },
+    });
+    expect(renderToString(element)).toEqual(
+      '<div style="margin: 0; color: red; font-size: 2px"></div>'
+    );
+
+    color.data = "blue";
+    expect(renderToString(element)).toEqual(
+      '<div style="margin: 0; color: blue; font-size: 2px"></div>'
+    );
+  });
+
+  test("form state", () => {
+    const text = new String("hi");
+    const checked = new DataChannel(true);
+    const form = new Element(
+      "form",
+      new List<Element | Fragment>([
+        new Element("input", new List<Element | Fragment>([]), {
+          attributes: { value: "initial" },
+          properties: { value: text },
+        }),
+        new Element("input", new List<Element | Fragment>([]), {
+          attributes: { type: "checkbox" },
+          bindings: { checked },
+        }),
+        new Element("textarea", new List<Element | Fragment>([]), {
+          bindings: { value: new String("a < b") },
+        }),
+        new Element(
+          "select",
+          new List(
+            ["a", "b"].map(
+              (value) =>
+                new Element(
+                  "option",
+                  new List([new Fragment(new String(value))])
+                )
+            )
+          ),
+          { properties: { value: "b" } }
+        ),
+      ])
+    );
+    expect(renderToString(form)).toEqual(
+      '<form><input value="hi"><input type="checkbox" checked>' +
+        "<textarea>a &lt; b</textarea>" +
+        "<select><option>a</option><option selected>b</option></select></form>"
+    );
+
+    // The current state is rendered
+    text.data = "bye";
+    checked.data = false;
+    expect(renderToString(form)).toContain(
+      '<input value="bye"><input type="checkbox">'
+    );
+  });
+
+  test("void elements", () => {
+    const element = new Element(
+      "p",
+      new List<Element | Fragment>([
+        new Element("br", new List<Element | Fragment>([])),
+        new Element("input", new List<Element | Fragment>([]), {
+          attributes: { type: "text" },
+        }),
+      ])
+    );
+    expect(renderToString(element)).toEqual('<p><br><input type="text"></p>');
+  });
+
+  test("raw text elements", () => {
+    const styleSheet = new StyleSheet("list");
+    styleSheet.rule(":scope > li", { color: "red" });
+    const element = new Element(
+      "head",
+      new List<Element | Fragment>([
+        new Element(
+          "style",
+          new List([new Fragment(new String(styleSheet.text))])
+        ),
+        new Element(
+          "script",
+          new List([new Fragment(new String("if (a < b && c) go();"))])
+        ),
+      ])
+    );
+    expect(renderToString(element)).toEqual(
+      "<head><style>.list > li { color: red; }</style>" +
+        "<script>if (a < b && c) go();</script></head>"
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * This file provides server-side rendering of DOM channels to HTML strings.
+ * Rendering walks the data of {@link Element} and {@link Fragment} channels
+ * directly, so no DOM is needed.
+ */
+
+import { AttributeValue, Element, Fragment, read } from "./dom";
+
+/**
+ * Elements that cannot have children and are written without a closing tag
+ */
+const voidElements = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * Elements whose text is not parsed as HTML, so it is written without escaping
+ */
+const rawTextElements = new Set(["script", "style"]);
+
+/**
+ * Properties (and bindings) holding form state whose initial value is set by
+ * an attribute of the same name. They are rendered as that attribute, so
+ * server-rendered forms show their state before they are hydrated.
+ */
+const reflectedProperties = new Set(["value", "checked", "selected", "muted"]);
+
+/**
+ * Escapes text so it can be placed inside HTML elements
+ * @param text The text to escape
+ * @returns The escaped text
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Escapes text so it can be placed inside a double-quoted HTML attribute
+ * @param text The text to escape
+ * @returns The escaped text
+ */
+export function escapeAttribute(text: string): string {
+  return escapeText(text).replace(/"/g, "&quot;");
+}
+
+/**
+ * Renders an attribute as it would appear in an HTML tag
+ * @param name The attribute name
+ * @param value The attribute value
+ * @returns The rendered attribute with a leading space, or an empty string if
+ * the attribute is empty (null or false)
+ */
+function renderAttribute(name: string, value: AttributeValue): string {
+  if (value == null || value === false) return "";
+  if (value === true) return ` ${name}`;
+  return ` ${name}="${escapeAttribute(`${value}`)}"`;
+}
+
+/**
+ * Renders a DOM channel tree to an HTML string. Attributes and inline styles
+ * are included with their current values, as are the value, checked, selected
+ * and muted properties and bindings (as the attributes that set their initial
+ * state). Other properties and event listeners only exist on live DOM nodes
+ * and are not rendered. Text is escaped, except inside `<script>` and `<style>`
+ * elements, whose text is not parsed as HTML.
+ * @param channel The element or fragment to render
+ * @returns The rendered HTML
+ */
+export function renderToString(channel: Element | Fragment): string {
+  return render(channel, null);
+}
+
+/**
+ * Renders a DOM channel tree to an HTML string
+ * @param channel The element or fragment to render
+ * @param selectValue The value of the `<select>` the channel is in, if any,
+ * which selects the options with that value
+ * @returns The rendered HTML
+ */
+function render(
+  channel: Element | Fragment,
+  selectValue: AttributeValue
+): string {
+  if (channel instanceof Fragment) {
+    // Render text
+    return escapeText(channel.data);
+  }
+
+  const { tag, children, options } = channel.data;
+  const lowerTag = tag.toLowerCase();
+
+  // Gather the form state set by properties and bindings
+  const state: Record<string, AttributeValue> = {};
+  for (const [name, value] of Object.entries(options.properties ?? {})) {
+    if (reflectedProperties.has(name)) state[name] = read(value);
+  }
+  for (const [name, value] of Object.entries(options.bindings ?? {})) {
+    if (value != null) state[name] = value.data;
+  }
+  // A textarea's value is its contents and a select's value selects options,
+  // rather than being attributes
+  let contents: string | null = null;
+  if (lowerTag === "textarea" && "value" in state) {
+    contents = escapeText(`${state.value ?? ""}`);
+    delete state.value;
+  } else if (lowerTag === "select" && "value" in state) {
+    selectValue = state.value;
+    delete state.value;
+  } else if (lowerTag === "option" && selectValue != null) {
+    state.selected ??= `${optionValue(channel)}` === `${selectValue}`;
+  }
+
+  // Render the attributes
+  let attributes = "";
+  for (const [name, value] of Object.entries(options.attributes ?? {})) {
+    // Inline styles are combined with the style attribute below
+    if (name === "style" && options.style != null) continue;
+    // The form state overrides the attributes that set its initial value
+    if (name in state) continue;
+    attributes += renderAttribute(name, read(value));
+  }
+  for (const [name, value] of Object.entries(state)) {
+    attributes += renderAttribute(name, value);
+  }
+
+  // Render the inline styles, appended to any style attribute
+  if (options.style != null) {
+    const declarations: string[] = [];
+    const styleAttribute = read(options.attributes?.style ?? null);
+    if (styleAttribute != null && styleAttribute !== false) {
+      declarations.push(`${styleAttribute}`.replace(/;\s*$/, ""));
+    }
+    for (const [name, value] of Object.entries(options.style)) {
+      const style = read(value);
+      if (style != null) {
+        declarations.push(`${name}: ${style}`);
+      }
+    }
+    if (declarations.length > 0) {
+      attributes += renderAttribute("style", declarations.join("; "));
+    }
+  }
+
+  // Void elements have no children or closing tag
+  if (voidElements.has(lowerTag)) {
+    return `<${tag}${attributes}>`;
+  }
+
+  // Render all the children, leaving the text of raw text elements as is
+  const rawText = rawTextElements.has(lowerTag);
+  contents ??= children
+    .map((child) =>
+      rawText && child instanceof Fragment
+        ? child.data
+        : render(child, selectValue)
+    )
+    .join("");
+  return `<${tag}${attributes}>${contents}</${tag}>`;
+}
+
+/**
+ * Returns the value of an `<option>`: its value attribute or property, or its
+ * text if it has neither
+ * @param option The option element
+ * @returns The value
+ */
+function optionValue(option: Element): AttributeValue {
+  const { children, options } = option.data;
+  const value =
+    options.bindings?.value?.data ??
+    read(options.properties?.value ?? null) ??
+    read(options.attributes?.value ?? null);
+  if (value != null) return value;
+  return children
+    .map((child) => (child instanceof Fragment ? child.data : ""))
+    .join("");
+}
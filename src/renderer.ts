@@ -0,0 +1,183 @@
+/**
+ * This file provides the renderer interface that DOM channels render through
+ *
+ * DOM channels never touch nodes directly. Instead, they ask a renderer to
+ * create, insert, remove and modify nodes. The default renderer targets the
+ * browser's DOM, but the same channel tree can be rendered into any tree
+ * structure (for instance, an in-memory tree for tests) by providing a
+ * different renderer.
+ */
+
+/**
+ * A node created by some {@link Renderer}. Its actual type depends on the
+ * renderer (for instance, DOM nodes for {@link domRenderer}), so DOM channels
+ * only pass nodes to their renderer and narrow them before using them
+ * directly.
+ */
+export type RenderNode = unknown;
+
+/**
+ * A renderer creates and modifies the nodes that DOM channels are rendered
+ * into. `N` is the type of the nodes it renders into.
+ */
+export interface Renderer<N = RenderNode> {
+  /**
+   * Creates an element node with the specified tag
+   */
+  createElement(tag: string): N;
+
+  /**
+   * Creates a text node with the specified text
+   */
+  createText(text: string): N;
+
+  /**
+   * Creates an empty node that reserves a position among a parent's children
+   */
+  createPlaceholder(): N;
+
+  /**
+   * Inserts a node into a parent before the specified child node, or at the end
+   * if the child node is null. If the node is already in a parent, it is moved.
+   */
+  insert(parent: N, node: N, before: N | null): void;
+
+  /**
+   * Removes a node from its parent, if it has one
+   */
+  remove(node: N): void;
+
+  /**
+   * Returns the child node of a parent at the specified index, or null if there
+   * is none
+   */
+  childAt(parent: N, index: number): N | null;
+
+  /**
+   * Returns the number of child nodes a parent has
+   */
+  childCount(parent: N): number;
+
+  /**
+   * Returns the first child node of a parent, or null if there is none
+   */
+  firstChild(parent: N): N | null;
+
+  /**
+   * Returns the node after the specified node in its parent, or null if there
+   * is none
+   */
+  nextSibling(node: N): N | null;
+
+  /**
+   * Returns the lowercase tag of an element node, or null if the node is not an
+   * element
+   */
+  tagName(node: N): string | null;
+
+  /**
+   * Returns the text of a text node, or null if the node is not a text node
+   */
+  getText(node: N): string | null;
+
+  /**
+   * Sets the text of a text node
+   */
+  setText(node: N, text: string): void;
+
+  /**
+   * Splits a text node in two at the specified offset, inserting a new text
+   * node with the text after the offset right after it
+   */
+  splitText(node: N, offset: number): void;
+
+  /**
+   * Sets an attribute of an element node, or removes it if the value is null
+   */
+  setAttribute(node: N, name: string, value: string | null): void;
+
+  /**
+   * Sets a property of an element node
+   */
+  setProperty(node: N, name: string, value: any): void;
+
+  /**
+   * Returns a property of an element node
+   */
+  getProperty(node: N, name: string): any;
+
+  /**
+   * Sets an inline style of an element node, or removes it if the value is null
+   */
+  setStyle(node: N, name: string, value: string | null): void;
+
+  /**
+   * Attaches an event listener to an element node
+   */
+  addEventListener(node: N, type: string, listener: EventListener): void;
+
+  /**
+   * Detaches an event listener from an element node
+   */
+  removeEventListener(node: N, type: string, listener: EventListener): void;
+}
+
+/**
+ * The default renderer, which renders into the browser's DOM using the global
+ * `document`
+ */
+export const domRenderer: Renderer<Node> = {
+  createElement: (tag) => document.createElement(tag),
+  createText: (text) => document.createTextNode(text),
+  createPlaceholder: () => document.createComment(""),
+  insert: (parent, node, before) => {
+    parent.insertBefore(node, before);
+  },
+  remove: (node) => {
+    node.parentNode?.removeChild(node);
+  },
+  childAt: (parent, index) => parent.childNodes[index] ?? null,
+  childCount: (parent) => parent.childNodes.length,
+  firstChild: (parent) => parent.firstChild,
+  nextSibling: (node) => node.nextSibling,
+  tagName: (node) =>
+    node.nodeType === Node.ELEMENT_NODE
+      ? (node as HTMLElement).tagName.toLowerCase()
+      : null,
+  getText: (node) =>
+    node.nodeType === Node.TEXT_NODE ? (node as Text).data : null,
+  setText: (node: Text, text) => {
+    node.data = text;
+  },
+  splitText: (node: Text, offset) => {
+    node.splitText(offset);
+  },
+  setAttribute: (node: HTMLElement, name, value) => {
+    if (value == null) {
+      node.removeAttribute(name);
+    } else {
+      node.setAttribute(name, value);
+    }
+  },
+  setProperty: (node: any, name, value) => {
+    // Avoid resetting properties that are current (e.g. an input's value, which
+    // would move the cursor)
+    if (node[name] !== value) {
+      node[name] = value;
+    }
+  },
+  getProperty: (node: any, name) => node[name],
+  setStyle: (node: HTMLElement, name, value) => {
+    if (value == null) {
+      node.style.removeProperty(name);
+    } else {
+      node.style.setProperty(name, value);
+    }
+  },
+  addEventListener: (node, type, listener) => {
+    node.addEventListener(type, listener);
+  },
+  removeEventListener: (node, type, listener) => {
+    node.removeEventListener(type, listener);
+  },
+};
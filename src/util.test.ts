@@ -1,4 +1,11 @@
-import { range, recordMap } from "./util";
+import {
+  getPath,
+  MissingPathError,
+  range,
+  recordMap,
+  setPath,
+  shallowCopy,
+} from "./util";
 
 describe("range", () => {
   test("empty", () => {
@@ -27,3 +34,48 @@ describe("record map", () => {
     expect(recordMap({ a: 1 }, (value) => `${value}`)).toEqual({ a: "1" });
   });
 });
+
+describe("paths", () => {
+  test("get", () => {
+    const object = { items: [{ price: 1 }] };
+    expect(getPath(object, ["items", 0, "price"])).toEqual(1);
+    expect(getPath(object, [])).toBe(object);
+    expect(getPath(object, ["missing", 0])).toBeUndefined();
+  });
+
+  test("set", () => {
+    const object = { items: [{ price: 1 }] };
+    setPath(object, ["items", 0, "price"], 2);
+    expect(object).toEqual({ items: [{ price: 2 }] });
+  });
+
+  test("set missing", () => {
+    const object = { items: [{ price: 1 }] };
+    expect(() => setPath(object, ["items", 1, "price"], 2)).toThrow(
+      new MissingPathError(["items", 1, "price"], 2)
+    );
+    expect(() => setPath(object, ["items", 1, "price"], 2)).toThrow(
+      "Cannot set items.1.price: items.1 does not exist"
+    );
+    expect(() => setPath(object, ["items", 0, "price", "a"], 2)).toThrow(
+      MissingPathError
+    );
+    expect(object).toEqual({ items: [{ price: 1 }] });
+  });
+});
+
+test("shallow copy", () => {
+  const item = { price: 1 };
+  const list = [item];
+  const copy = shallowCopy(list);
+  expect(copy).toEqual(list);
+  expect(copy).not.toBe(list);
+  expect(copy[0]).toBe(item);
+  expect(shallowCopy({ a: 1 })).toEqual({ a: 1 });
+
+  // Other values are returned as is
+  const date = new Date();
+  expect(shallowCopy(date)).toBe(date);
+  expect(shallowCopy("a")).toEqual("a");
+  expect(shallowCopy(null)).toBeNull();
+});
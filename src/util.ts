@@ -42,3 +42,85 @@ export function recordMap<T, U>(
     )
   );
 }
+
+/**
+ * Reads the value at a path inside nested objects and arrays
+ * @param object The outermost object
+ * @param path The keys leading to the value, outermost first
+ * @returns The value at the end of the path, or undefined if the path does not
+ * exist
+ */
+export function getPath(object: any, path: (string | number | symbol)[]): any {
+  let value = object;
+  for (const key of path) {
+    if (value == null) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * An error that is thrown if data is set at a path that does not exist
+ */
+export class MissingPathError extends Error {
+  /**
+   * @param path The path that was set
+   * @param missing The length of the part of the path that does not exist
+   */
+  constructor(readonly path: (string | number | symbol)[], missing: number) {
+    super(
+      `Cannot set ${formatPath(path)}: ${formatPath(
+        path.slice(0, missing)
+      )} does not exist`
+    );
+  }
+}
+
+/**
+ * Formats a path as text, like `items.0.price`
+ */
+function formatPath(path: (string | number | symbol)[]): string {
+  return path.map((key) => String(key)).join(".");
+}
+
+/**
+ * Sets the value at a path inside nested objects and arrays, in place
+ * @param object The outermost object
+ * @param path The keys leading to the value, outermost first (must not be
+ * empty)
+ * @param value The value to set
+ * @throws {MissingPathError} If the object or array the value goes in does not
+ * exist
+ */
+export function setPath(
+  object: any,
+  path: (string | number | symbol)[],
+  value: any
+) {
+  let parent = object;
+  for (let i = 0; i < path.length - 1; i++) {
+    parent = parent[path[i]];
+    if (parent == null || typeof parent !== "object") {
+      throw new MissingPathError(path, i + 1);
+    }
+  }
+  parent[path[path.length - 1]] = value;
+}
+
+/**
+ * Copies an array or plain object, so that later changes made to it in place
+ * do not affect the copy. Nested objects and arrays are not copied, and other
+ * values are returned as is.
+ * @param value The value to copy
+ * @returns The copy
+ */
+export function shallowCopy<T>(value: T): T {
+  if (Array.isArray(value)) return [...value] as unknown as T;
+  if (typeof value === "object" && value != null) {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === Object.prototype || prototype === null) {
+      return Object.assign(Object.create(prototype), value);
+    }
+  }
+  return value;
+}